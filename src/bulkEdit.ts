@@ -0,0 +1,32 @@
+// src/bulkEdit.ts
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+
+/**
+ * Baseline of a bulk edit, kept in the edit state of the `mrt-row-bulk` row
+ */
+export interface MRT_BulkEditState {
+  /** Ids of the rows being edited */
+  rowIds: string[];
+  /** The value each column starts with: the shared value, or undefined for mixed columns */
+  values: Record<string, unknown>;
+  /** Columns whose values differ between the rows */
+  mixed: string[];
+}
+
+/**
+ * Props handed to `onBulkEditingRowSave`
+ *
+ * @template TData - The data type for the table row
+ */
+export interface MRT_BulkEditSaveProps<TData extends MRT_RowData> {
+  /** Ids of the edited rows */
+  rowIds: string[];
+  /** The edited rows */
+  rows: MRT_Row<TData>[];
+  /** Only the fields the user changed, keyed by column id */
+  values: Record<string, unknown>;
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+  /** Closes the bulk edit dialog */
+  exitEditingMode: () => void;
+}
@@ -3,6 +3,7 @@ import IconButton, {IconButtonProps} from "@mui/material/IconButton";
 import Tooltip from "@mui/material/Tooltip";
 import {RTV} from "./MRT_EditActionsButtonsAlt";
 import Button, {ButtonProps} from "@mui/material/Button";
+import {requestCancelEditingRow} from "../../utils";
 
 
 /**
@@ -36,6 +37,7 @@ export type MRT_DialogButtonProps<TData extends MRT_RowData> = RTV<TData> & (Ico
  * Close/Cancel button component for edit actions.
  *
  * Renders a button that cancels the current row creation or editing operation.
+ * If the row has unsaved changes, the "Discard changes?" confirmation (MRT_DiscardChangesDialog) is opened instead.
  *
  * @template TData - The type of data in the table rows
  * @param props - The component props containing row, table, and variant
@@ -52,37 +54,19 @@ export type MRT_DialogButtonProps<TData extends MRT_RowData> = RTV<TData> & (Ico
  */
 export const MRT_CloseDialogButton = <TData extends MRT_RowData>({row, table, variant}: MRT_DialogButtonProps<TData>) => {
   const {
-    getState,
     options: {
       icons: {CancelIcon},
       localization,
-      onCreatingRowCancel,
-      onEditingRowCancel,
     },
-    setCreatingRow,
-    setEditingRow,
   } = table;
-  const {creatingRow, editingRow} = getState();
-
-  const isCreating = creatingRow?.id === row.id;
-  const isEditing = editingRow?.id === row.id;
 
   /**
-   * Handles the submit action for row creation or editing.
-   * Gathers all input values from the form and calls the appropriate callback.
+   * Handles the cancel action for row creation or editing.
+   * Asks for confirmation first when the row has unsaved changes.
    *
    * @private
    */
-  const handleCancel = () => {
-    if (isCreating) {
-      onCreatingRowCancel?.({row, table});
-      setCreatingRow(null);
-    } else if (isEditing) {
-      onEditingRowCancel?.({row, table});
-      setEditingRow(null);
-    }
-    row._valuesCache = {} as any; //reset values cache
-  };
+  const handleCancel = () => requestCancelEditingRow({table, row});
 
   return variant === 'icon'
     ? (
@@ -0,0 +1,146 @@
+import {MRT_Row, MRT_RowData} from "material-react-table";
+import {useState} from "react";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import Button from "@mui/material/Button";
+import {createSvgIcon} from "@mui/material/utils";
+import {RTV} from "./MRT_EditActionsButtonsAlt";
+import {clearEditingRowState} from "../../utils";
+import {getEditRowStore, scheduleRowDelete, usePendingDeleteRowIds} from "../../state";
+import {MRT_DeleteRowsDialog} from "../dialogs/MRT_DeleteRowsDialog";
+
+const DeleteIcon = createSvgIcon(
+  <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6zM19 4h-3.5l-1-1h-5l-1 1H5v2h14z"/>,
+  'Delete'
+);
+
+/**
+ * Props for the MRT_DeleteRowButton component
+ *
+ * @template TData - The type of data in the table rows
+ */
+export type MRT_DeleteRowButtonProps<TData extends MRT_RowData> = Omit<RTV<TData>, 'row'> & {
+  /** The row to delete; without `row` or `rows`, the selected rows are deleted */
+  row?: MRT_Row<TData>;
+  /** The rows to delete */
+  rows?: MRT_Row<TData>[];
+  /** Undo window in ms: the delete is committed once it ends (default: commit right away) */
+  undoTimeout?: number;
+  /** Number of columns summarized per row in the confirmation */
+  summaryColumnCount?: number;
+};
+
+/**
+ * Delete button for one row or several (by default the selected rows).
+ *
+ * Asks for confirmation in MRT_DeleteRowsDialog, which summarizes the rows the way MRT_EditDialog's
+ * view mode shows them, then calls the table's `onDeletingRow`. With `undoTimeout`, `onDeletingRow` is only called
+ * once the window ends, even if the button unmounts first; render MRT_DeleteUndoSnackbar once per table to offer Undo.
+ * Rows in their undo window can't be deleted again; hide them with `isRowDeletePending` / `usePendingDeleteRowIds`.
+ * A deleted row that is open in the edit dialog leaves edit mode, a bulk edit drops it (closing once no row is left),
+ * and deleted rows are deselected.
+ *
+ * Texts can be overridden through the table's localization: `delete` and `confirmDelete`.
+ *
+ * @template TData - The type of data in the table rows
+ * @param props - Component props including row(s), table, and display variant
+ * @returns A React component that renders a delete button
+ *
+ * @example
+ * ```tsx
+ * // A row action
+ * <MRT_DeleteRowButton row={row} table={table} variant="icon" undoTimeout={5000} />
+ * // Once per table, next to it
+ * <MRT_DeleteUndoSnackbar table={table} />
+ *
+ * // The selected rows, in the toolbar
+ * <MRT_DeleteRowButton table={table} variant="text" />
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_DeleteRowButton = <TData extends MRT_RowData>(
+  {
+    row,
+    rows,
+    table,
+    variant,
+    undoTimeout,
+    summaryColumnCount,
+  }: MRT_DeleteRowButtonProps<TData>) => {
+  const {
+    getState,
+    options: {localization, onDeletingRow},
+    setEditingRow,
+    setRowSelection,
+  } = table;
+  const pendingRowIds = usePendingDeleteRowIds(table);
+  const targets = (rows ?? (row ? [row] : table.getSelectedRowModel().rows))
+  .filter(({id}) => !pendingRowIds.has(id));
+
+  const [confirming, setConfirming] = useState<MRT_Row<TData>[] | null>(null);
+
+  /**
+   * Calls onDeletingRow and drops the deleted rows from the edit and selection state
+   * @private
+   */
+  const commitDelete = (deleted: MRT_Row<TData>[]) => {
+    const rowIds = deleted.map(({id}) => id);
+    const {editingRow} = getState();
+    const store = getEditRowStore(table);
+    const bulk = editingRow?.id === 'mrt-row-bulk' ? store.getRow(editingRow.id).bulk : undefined;
+    const remaining = bulk?.rowIds.filter((rowId) => !rowIds.includes(rowId));
+    if (editingRow && (rowIds.includes(editingRow.id) || remaining?.length === 0)) {
+      clearEditingRowState(table, editingRow.id);
+      setEditingRow(null);
+    } else if (bulk && remaining && remaining.length < bulk.rowIds.length) {
+      // A bulk edit only saves the rows that still exist
+      store.setRow('mrt-row-bulk', (prev) => ({...prev, bulk: {...bulk, rowIds: remaining}}));
+    }
+    setRowSelection((selection) =>
+      Object.fromEntries(Object.entries(selection).filter(([rowId]) => !rowIds.includes(rowId))));
+    onDeletingRow?.({rowIds, rows: deleted, table});
+  };
+
+  const handleConfirm = () => {
+    const deleted = (confirming ?? []).filter(({id}) => !pendingRowIds.has(id));
+    setConfirming(null);
+    if (!undoTimeout) {
+      commitDelete(deleted);
+      return;
+    }
+    scheduleRowDelete(table, deleted, undoTimeout, commitDelete);
+  };
+
+  const handleOpen = () => setConfirming(targets);
+  const label = localization.delete ?? 'Delete';
+  const disabled = !targets.length || !onDeletingRow;
+
+  return (
+    <>
+      {variant === 'icon'
+        ? (
+          <Tooltip title={label}>
+            <span>
+              <IconButton aria-label={label} color="error" disabled={disabled} onClick={handleOpen}>
+                <DeleteIcon/>
+              </IconButton>
+            </span>
+          </Tooltip>
+        )
+        : (
+          <Button color="error" disabled={disabled} onClick={handleOpen} sx={{minWidth: '100px'}}>
+            {label}
+          </Button>
+        )}
+      <MRT_DeleteRowsDialog
+        table={table}
+        rows={confirming ?? []}
+        open={!!confirming}
+        onClose={() => setConfirming(null)}
+        onConfirm={handleConfirm}
+        summaryColumnCount={summaryColumnCount}
+      />
+    </>
+  );
+};
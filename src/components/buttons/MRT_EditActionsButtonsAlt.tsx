@@ -16,6 +16,7 @@ import {
 import {parseFromValuesOrFunc} from "material-react-table/src/utils/utils";
 import {MRT_CloseDialogButton} from "./MRT_CloseDialogButton";
 import {MRT_SubmitDialogButton} from "./MRT_SubmitDialogButton";
+import {MRT_EditHistoryButtons} from "./MRT_EditHistoryButtons";
 
 /**
  * Base type for components that need row, table, and variant information.
@@ -41,6 +42,8 @@ export type RTV<TData extends MRT_RowData> = {
 export interface MRT_EditActionButtonsAltProps<TData extends MRT_RowData> extends BoxProps, RTV<TData> {
   /** Option to hide the submit-button (useful for view-only mode) */
   hideSubmitButton?: boolean;
+  /** Option to show undo/redo buttons before the cancel button */
+  showHistoryButtons?: boolean;
 }
 
 /**
@@ -60,6 +63,7 @@ export interface MRT_EditActionButtonsAltProps<TData extends MRT_RowData> extend
  *   table={table}
  *   variant="text"
  *   hideSubmitButton={isViewOnly}
+ *   showHistoryButtons
  * />
  * ```
  */
@@ -69,6 +73,7 @@ export const MRT_EditActionButtonsAlt = <TData extends MRT_RowData>(
     table,
     variant = 'icon',
     hideSubmitButton,
+    showHistoryButtons,
     ...rest
   }: MRT_EditActionButtonsAltProps<TData>) => (
   <Box
@@ -79,6 +84,7 @@ export const MRT_EditActionButtonsAlt = <TData extends MRT_RowData>(
       ...(parseFromValuesOrFunc(rest?.sx, theme) as any),
     })}
   >
+    {showHistoryButtons && <MRT_EditHistoryButtons row={row} table={table} variant={variant}/>}
     <MRT_CloseDialogButton row={row} table={table} variant={variant}/>
     {!hideSubmitButton && <MRT_SubmitDialogButton row={row} table={table} variant={variant}/>}
   </Box>
@@ -0,0 +1,81 @@
+import {MRT_RowData} from "material-react-table";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import Button from "@mui/material/Button";
+import {createSvgIcon} from "@mui/material/utils";
+import {RTV} from "./MRT_EditActionsButtonsAlt";
+import {useEditHistory} from "../../state";
+
+const UndoIcon = createSvgIcon(
+  <path d="M12.5 8c-2.65 0-5.05.99-6.9 2.6L2 7v9h9l-3.62-3.62c1.39-1.16 3.16-1.88 5.12-1.88 3.54 0 6.55 2.31 7.6 5.5l2.37-.78C21.08 11.03 17.15 8 12.5 8"/>,
+  'Undo'
+);
+
+const RedoIcon = createSvgIcon(
+  <path d="M18.4 10.6C16.55 8.99 14.15 8 11.5 8c-4.65 0-8.58 3.03-9.96 7.22L3.9 16c1.05-3.19 4.05-5.5 7.6-5.5 1.95 0 3.73.72 5.12 1.88L13 16h9V7z"/>,
+  'Redo'
+);
+
+/**
+ * Props for the MRT_EditHistoryButtons component
+ *
+ * @template TData - The type of data in the table rows
+ */
+export type MRT_EditHistoryButtonsProps<TData extends MRT_RowData> = RTV<TData>;
+
+/**
+ * Undo/Redo buttons for an editing row.
+ *
+ * Steps back and forward through the row's value changes, same as Ctrl+Z / Ctrl+Shift+Z.
+ * Meant to sit next to MRT_EditActionButtonsAlt.
+ *
+ * Texts can be overridden through the table's localization: `undo` and `redo`.
+ *
+ * @template TData - The type of data in the table rows
+ * @param props - The component props containing row, table, and variant
+ * @returns A React component with undo and redo buttons
+ *
+ * @example
+ * ```tsx
+ * <DialogActions>
+ *   <MRT_EditHistoryButtons row={row} table={table} variant="icon" />
+ *   <MRT_EditActionButtonsAlt row={row} table={table} variant="icon" />
+ * </DialogActions>
+ * ```
+ */
+export const MRT_EditHistoryButtons = <TData extends MRT_RowData>({row, table, variant}: MRT_EditHistoryButtonsProps<TData>) => {
+  const {localization} = table.options;
+  const {canUndo, canRedo, undo, redo} = useEditHistory({table, row});
+  const undoLabel = localization.undo ?? 'Undo';
+  const redoLabel = localization.redo ?? 'Redo';
+
+  return variant === 'icon'
+    ? (
+      <>
+        <Tooltip title={undoLabel}>
+          <span>
+            <IconButton aria-label={undoLabel} disabled={!canUndo} onClick={undo}>
+              <UndoIcon/>
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={redoLabel}>
+          <span>
+            <IconButton aria-label={redoLabel} disabled={!canRedo} onClick={redo}>
+              <RedoIcon/>
+            </IconButton>
+          </span>
+        </Tooltip>
+      </>
+    )
+    : (
+      <>
+        <Button disabled={!canUndo} onClick={undo} startIcon={<UndoIcon/>}>
+          {undoLabel}
+        </Button>
+        <Button disabled={!canRedo} onClick={redo} startIcon={<RedoIcon/>}>
+          {redoLabel}
+        </Button>
+      </>
+    );
+}
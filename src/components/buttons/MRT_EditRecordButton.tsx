@@ -0,0 +1,59 @@
+import {MRT_RowData} from "material-react-table";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import Button from "@mui/material/Button";
+import {parseFromValuesOrFunc} from "material-react-table/src/utils/utils";
+import {RTV} from "./MRT_EditActionsButtonsAlt";
+import {editViewingRow, getSourceRow} from "../../state";
+
+/**
+ * Props for the MRT_EditRecordButton component
+ *
+ * @template TData - The type of data in the table rows
+ */
+export type MRT_EditRecordButtonProps<TData extends MRT_RowData> = RTV<TData>;
+
+/**
+ * "Edit" button for a row opened with `setViewingRow`.
+ *
+ * Switches the open dialog from view mode into edit mode for the same row.
+ * Renders nothing when the table's `enableEditing` rules out editing the row.
+ *
+ * @template TData - The type of data in the table rows
+ * @param props - The component props containing row, table, and variant
+ * @returns A React component that switches to edit mode
+ *
+ * @example
+ * ```tsx
+ * <MRT_EditRecordButton row={row} table={table} variant="text" />
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_EditRecordButton = <TData extends MRT_RowData>({row, table, variant}: MRT_EditRecordButtonProps<TData>) => {
+  const {
+    options: {
+      enableEditing,
+      icons: {EditIcon},
+      localization,
+    },
+  } = table;
+  const source = getSourceRow(table, row);
+  if (!source || !parseFromValuesOrFunc(enableEditing, source)) return null;
+
+  const handleEdit = () => editViewingRow({table, row});
+
+  return variant === 'icon'
+    ? (
+      <Tooltip title={localization.edit}>
+        <IconButton aria-label={localization.edit} onClick={handleEdit}>
+          <EditIcon/>
+        </IconButton>
+      </Tooltip>
+    )
+    : (
+      <Button onClick={handleEdit} sx={{minWidth: '100px'}} variant="outlined">
+        {localization.edit}
+      </Button>
+    );
+};
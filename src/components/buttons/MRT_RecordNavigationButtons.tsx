@@ -0,0 +1,80 @@
+import {MRT_RowData} from "material-react-table";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import Typography from "@mui/material/Typography";
+import Box from "@mui/material/Box";
+import {createSvgIcon} from "@mui/material/utils";
+import {RTV} from "./MRT_EditActionsButtonsAlt";
+import {getRecordPosition, moveEditingRow} from "../../state";
+
+const PreviousIcon = createSvgIcon(
+  <path d="M15.41 7.41 14 6l-6 6 6 6 1.41-1.41L10.83 12z"/>,
+  'ChevronLeft'
+);
+
+const NextIcon = createSvgIcon(
+  <path d="M10 6 8.59 7.41 13.17 12l-4.58 4.59L10 18l6-6z"/>,
+  'ChevronRight'
+);
+
+/**
+ * Props for the MRT_RecordNavigationButtons component
+ *
+ * @template TData - The type of data in the table rows
+ */
+export type MRT_RecordNavigationButtonsProps<TData extends MRT_RowData> = Pick<RTV<TData>, 'row' | 'table'>;
+
+/**
+ * Previous/next record buttons for the row open in a view or edit dialog.
+ *
+ * Steps through the table's current sorted and filtered rows (across pages), showing the position as "3 / 25".
+ * In edit mode, unsaved changes are confirmed with "Discard changes?" before moving on
+ * (the confirmation is rendered by MRT_CloseDialogButton, which sits in the same dialog).
+ *
+ * Texts can be overridden through the table's localization: `previousRecord` and `nextRecord`.
+ *
+ * @template TData - The type of data in the table rows
+ * @param props - The component props containing row and table
+ * @returns A React component with previous and next buttons
+ *
+ * @example
+ * ```tsx
+ * <DialogTitle>
+ *   <MRT_RecordNavigationButtons row={row} table={table} />
+ * </DialogTitle>
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_RecordNavigationButtons = <TData extends MRT_RowData>({row, table}: MRT_RecordNavigationButtonsProps<TData>) => {
+  const {localization} = table.options;
+  const {records, index} = getRecordPosition(table, row);
+  const previous = index > 0 ? records[index - 1] : undefined;
+  const next = index >= 0 && index < records.length - 1 ? records[index + 1] : undefined;
+  const previousLabel = localization.previousRecord ?? 'Previous record';
+  const nextLabel = localization.nextRecord ?? 'Next record';
+
+  return (
+    <Box sx={{display: 'flex', alignItems: 'center', gap: 0.5}}>
+      <Tooltip title={previousLabel}>
+        <span>
+          <IconButton aria-label={previousLabel} disabled={!previous} onClick={() => previous && moveEditingRow({table, row}, previous)}>
+            <PreviousIcon/>
+          </IconButton>
+        </span>
+      </Tooltip>
+      {index >= 0 && (
+        <Typography variant="body2" color="text.secondary" aria-live="polite">
+          {index + 1} / {records.length}
+        </Typography>
+      )}
+      <Tooltip title={nextLabel}>
+        <span>
+          <IconButton aria-label={nextLabel} disabled={!next} onClick={() => next && moveEditingRow({table, row}, next)}>
+            <NextIcon/>
+          </IconButton>
+        </span>
+      </Tooltip>
+    </Box>
+  );
+};
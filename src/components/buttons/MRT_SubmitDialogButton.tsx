@@ -1,16 +1,46 @@
-import {MRT_RowData} from "material-react-table";
+import {MRT_Row, MRT_RowData} from "material-react-table";
 import {RTV} from "./MRT_EditActionsButtonsAlt";
 import Tooltip from "@mui/material/Tooltip";
 import IconButton from "@mui/material/IconButton";
 import CircularProgress from "@mui/material/CircularProgress";
 import Button from "@mui/material/Button";
+import Snackbar from "@mui/material/Snackbar";
 import type {MRT_DialogButtonProps} from "./MRT_CloseDialogButton";
+import {
+  cancelEditingRow,
+  clearEditingRowState,
+  getSubmitValues,
+  validateEditingRow
+} from "../../utils";
+import {
+  clearDraft,
+  getBulkEditValues,
+  getEditRowStore,
+  getRowVersion,
+  isSameValue,
+  resolveRowConflict,
+  useRowEditState,
+  waitForAsyncValidation
+} from "../../state";
+import {useState} from "react";
+import {hasValidationErrors} from "../../validation";
+import type {MRT_ConflictChoices} from "../../concurrency";
+import {MRT_ConflictDialog} from "../dialogs/MRT_ConflictDialog";
 
 /**
  * Submit button component for edit and create operations in dialog mode.
  *
  * This component renders either an icon button or a text button based on the variant prop.
  * It handles saving data for both creating new rows and editing existing ones.
+ * Saving is blocked (and the button disabled) while any column `validation` rule fails,
+ * and waits for pending async validations to settle before calling the save callbacks.
+ * Fields hidden by their column's `visibleWhen` are left out of the saved values.
+ * A bulk edit (see `setBulkEditingRow`) is saved through `onBulkEditingRowSave` with only the changed fields.
+ *
+ * With the table's `getLatestRow`, an edit is only saved while the stored row still has the version
+ * (`versionField`, by default "version" or "updatedAt") that `row.original` had when editing started.
+ * Otherwise MRT_ConflictDialog compares the fields and lets the user keep theirs, keep mine or merge per field.
+ * When `getLatestRow` fails, nothing is saved and a message (localization `conflictCheckFailed`) says so.
  *
  * @template TData - The type of data in the table rows
  * @param props - Component props including row, table, and display variant
@@ -31,29 +61,65 @@ export const MRT_SubmitDialogButton = <TData extends MRT_RowData>({row, table, v
     options: {
       icons: {SaveIcon},
       localization,
+      onBulkEditingRowSave,
       onCreatingRowSave,
       onEditingRowSave,
+      getLatestRow,
     },
     refs: {editInputRefs},
     setCreatingRow,
     setEditingRow,
   } = table;
   const {creatingRow, editingRow, isSaving} = getState();
+  const {errors, bulk} = useRowEditState(table, row.id);
 
   const isCreating = creatingRow?.id === row.id;
   const isEditing = editingRow?.id === row.id;
+  const onSave = bulk ? onBulkEditingRowSave : onEditingRowSave;
+  const isInvalid = hasValidationErrors(errors);
+  const [isValidating, setIsValidating] = useState(false);
+  const [conflict, setConflict] = useState<TData | null>(null);
+  const [checkFailed, setCheckFailed] = useState(false);
+
+  /**
+   * Calls onEditingRowSave with the given values
+   * @private
+   */
+  const saveEditingRow = (values: Record<string, unknown>) =>
+    onEditingRowSave?.({
+      exitEditingMode: () => {
+        clearEditingRowState(table, row.id);
+        clearDraft(table, row.id);
+        setEditingRow(null);
+      },
+      row,
+      table,
+      values,
+    });
+
+  /**
+   * Gets the latest stored row when it has a newer version than the row being edited
+   * @private
+   */
+  const findConflict = async () => {
+    const latest = await getLatestRow?.({row, table});
+    if (!latest) return null;
+    return isSameValue(getRowVersion(table, latest).value, getRowVersion(table, row.original).value) ? null : latest;
+  };
 
   /**
    * Handles the submission of row data.
    *
    * This function:
    * 1. Collects autofilled input values
-   * 2. Calls the appropriate save handler based on the current mode (create/edit)
-   * 3. Provides callbacks to exit the editing/creating mode
+   * 2. Validates every column (awaiting async validators), stopping if any rule fails
+   * 3. For an edit, checks the stored row's version through `getLatestRow`, stopping on a conflict
+   * 4. Calls the appropriate save handler based on the current mode (create/edit/bulk edit)
+   * 5. Provides callbacks to exit the editing/creating mode
    *
    * @private
    */
-  const handleSubmitRow = () => {
+  const handleSubmitRow = async () => {
     //look for autofilled input values
     Object.values(editInputRefs.current ?? {})
     .filter((inputRef) => row.id === inputRef?.name?.split('_')?.[0])
@@ -66,51 +132,131 @@ export const MRT_SubmitDialogButton = <TData extends MRT_RowData>({row, table, v
         row._valuesCache[input.name] = input.value;
       }
     });
+    if (hasValidationErrors(validateEditingRow(table, row))) return;
+
+    setIsValidating(true);
+    await waitForAsyncValidation(table, row.id);
+    setIsValidating(false);
+    if (hasValidationErrors(getEditRowStore(table).getRow(row.id).errors)) return;
+
+    if (isEditing && !bulk && getLatestRow) {
+      setIsValidating(true);
+      setCheckFailed(false);
+      let latest: TData | null;
+      try {
+        latest = await findConflict();
+      } catch {
+        // Without the stored version a save could overwrite someone else's changes
+        setCheckFailed(true);
+        return;
+      } finally {
+        setIsValidating(false);
+      }
+      if (latest) {
+        setConflict(latest);
+        return;
+      }
+    }
+
+    // The dialog may have been closed while waiting
+    const state = getState();
+    if (state.creatingRow?.id !== row.id && state.editingRow?.id !== row.id) return;
+
+    const clearEditState = () => clearEditingRowState(table, row.id);
     if (isCreating)
       onCreatingRowSave?.({
-        exitCreatingMode: () => setCreatingRow(null),
+        exitCreatingMode: () => {
+          clearEditState();
+          clearDraft(table, row.id);
+          setCreatingRow(null);
+        },
         row,
         table,
-        values: row._valuesCache,
+        values: getSubmitValues(table, row),
       });
-    else if (isEditing) {
-      onEditingRowSave?.({
-        exitEditingMode: () => setEditingRow(null),
-        row,
+    else if (isEditing && bulk) {
+      // Rows removed from the table since the bulk edit started are left out
+      const {rowsById} = table.getCoreRowModel();
+      const rows = bulk.rowIds.map((rowId) => rowsById[rowId]).filter((bulkRow) => bulkRow !== undefined);
+      onBulkEditingRowSave?.({
+        exitEditingMode: () => {
+          clearEditState();
+          setEditingRow(null);
+        },
+        rowIds: rows.map(({id}) => id),
+        rows: rows as MRT_Row<TData>[],
         table,
-        values: row?._valuesCache,
+        values: getBulkEditValues(table, row),
       });
+    } else if (isEditing) {
+      saveEditingRow(getSubmitValues(table, row));
     }
   }
 
+  const handleResolve = (choices: MRT_ConflictChoices) => {
+    if (!conflict) return;
+    setConflict(null);
+    saveEditingRow(resolveRowConflict({table, row}, conflict, choices));
+  };
+
+  const handleKeepTheirs = () => {
+    setConflict(null);
+    cancelEditingRow({table, row});
+  };
+
+  const conflictDialog = conflict && (
+    <MRT_ConflictDialog
+      table={table}
+      row={row}
+      latest={conflict}
+      open
+      onClose={() => setConflict(null)}
+      onKeepTheirs={handleKeepTheirs}
+      onResolve={handleResolve}
+    />
+  );
+
+  const checkFailedMessage = (
+    <Snackbar
+      open={checkFailed}
+      autoHideDuration={6000}
+      onClose={() => setCheckFailed(false)}
+      message={localization.conflictCheckFailed ?? "Couldn't check the record for newer changes, so it wasn't saved"}
+    />
+  );
+
   return variant === 'icon' ? (
     <>
       {(
-        (isCreating && onCreatingRowSave) || (isEditing && onEditingRowSave)
+        (isCreating && onCreatingRowSave) || (isEditing && onSave)
       ) && (
         <Tooltip title={localization.save}>
           <IconButton
             aria-label={localization.save}
             color="info"
-            disabled={isSaving}
+            disabled={isSaving || isValidating || isInvalid}
             onClick={handleSubmitRow}
           >
-            {isSaving ? <CircularProgress size={18}/> : <SaveIcon/>}
+            {isSaving || isValidating ? <CircularProgress size={18}/> : <SaveIcon/>}
           </IconButton>
         </Tooltip>
       )}
+      {conflictDialog}
+      {checkFailedMessage}
     </>
   ) : (
     <>
       <Button
-        disabled={isSaving}
+        disabled={isSaving || isValidating || isInvalid}
         onClick={handleSubmitRow}
         sx={{minWidth: '100px'}}
         variant="contained"
       >
-        {isSaving && <CircularProgress color="inherit" size={18}/>}
+        {(isSaving || isValidating) && <CircularProgress color="inherit" size={18}/>}
         {localization.save}
       </Button>
+      {conflictDialog}
+      {checkFailedMessage}
     </>
   );
 }
\ No newline at end of file
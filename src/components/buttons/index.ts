@@ -1,3 +1,7 @@
 export * from "./MRT_EditActionsButtonsAlt"
 export * from "./MRT_CloseDialogButton"
-export * from "./MRT_SubmitDialogButton"
\ No newline at end of file
+export * from "./MRT_SubmitDialogButton"
+export * from "./MRT_EditHistoryButtons"
+export * from "./MRT_RecordNavigationButtons"
+export * from "./MRT_EditRecordButton"
+export * from "./MRT_DeleteRowButton"
\ No newline at end of file
@@ -0,0 +1,131 @@
+import {useMemo, useState} from "react";
+import Dialog, {type DialogProps} from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogContentText from "@mui/material/DialogContentText";
+import DialogActions from "@mui/material/DialogActions";
+import Button from "@mui/material/Button";
+import Radio from "@mui/material/Radio";
+import Table from "@mui/material/Table";
+import TableBody from "@mui/material/TableBody";
+import TableCell from "@mui/material/TableCell";
+import TableHead from "@mui/material/TableHead";
+import TableRow from "@mui/material/TableRow";
+import {createRow, type MRT_Cell, type MRT_Row, type MRT_RowData, type MRT_TableInstance} from "material-react-table";
+import {getConflictingFields, isSameValue} from "../../state";
+import type {MRT_ConflictChoices} from "../../concurrency";
+import {renderViewCell} from "./renderViewCell";
+
+/**
+ * Props for the MRT_ConflictDialog component
+ * @template TData - The data type for the table row
+ */
+export type MRT_ConflictDialogProps<TData extends MRT_RowData> = Omit<DialogProps, 'open' | 'onClose'> & {
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+  /** The row being saved */
+  row: MRT_Row<TData>;
+  /** The latest stored data of the row */
+  latest: TData;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Goes back to editing without saving */
+  onClose: () => void;
+  /** Drops the changes being saved */
+  onKeepTheirs: () => void;
+  /** Saves with the side picked for each conflicting field ("mine" for every field to keep all changes) */
+  onResolve: (choices: MRT_ConflictChoices) => void;
+};
+
+/**
+ * MRT_ConflictDialog - Field-by-field comparison shown when a row was changed by someone else while being edited
+ *
+ * Lists each field whose value being saved ("yours") differs from the latest stored value ("theirs").
+ * Fields you changed start on your side, the others on theirs; clicking a value picks it.
+ * Rendered by MRT_SubmitDialogButton when the table's `getLatestRow` reports a newer version.
+ *
+ * Texts can be overridden through the table's localization: `conflictTitle`, `conflictMessage`,
+ * `yours`, `theirs`, `keepMine`, `keepTheirs` and `saveMerged`.
+ *
+ * @template TData - The data type for the table row
+ *
+ * @since 1.2.0
+ */
+export const MRT_ConflictDialog = <TData extends MRT_RowData>(
+  {table, row, latest, open, onClose, onKeepTheirs, onResolve, ...dialogProps}: MRT_ConflictDialogProps<TData>) => {
+  const {localization} = table.options;
+  const fields = useMemo(() => getConflictingFields(table, row, latest), [table, row, latest]);
+  const theirsRow = useMemo(() => createRow(table, latest), [table, latest]);
+
+  const [choices, setChoices] = useState<MRT_ConflictChoices>(() => Object.fromEntries(
+    fields.map(({columnId, mine, base}) => [columnId, isSameValue(mine, base) ? 'theirs' : 'mine'])
+  ));
+
+  const getCell = (source: MRT_Row<TData>, columnId: string) =>
+    source.getAllCells().find((cell) => cell.column.id === columnId) as MRT_Cell<TData> | undefined;
+
+  /**
+   * One side of a field, picked by clicking it
+   * @private
+   */
+  const renderChoice = (columnId: string, side: 'mine' | 'theirs') => {
+    const cell = getCell(side === 'mine' ? row : theirsRow, columnId);
+    const checked = choices[columnId] === side;
+    return (
+      <TableCell
+        onClick={() => setChoices((prev) => ({...prev, [columnId]: side}))}
+        sx={{cursor: "pointer", bgcolor: checked ? "action.selected" : undefined}}
+      >
+        <Radio size="small" checked={checked} name={columnId} value={side} sx={{p: 0, mr: 1}}/>
+        {cell && renderViewCell(cell, table)}
+      </TableCell>
+    );
+  };
+
+  return (
+    <Dialog maxWidth="md" fullWidth {...dialogProps} open={open} onClose={onClose}>
+      <DialogTitle>
+        {localization.conflictTitle ?? "This record was changed by someone else"}
+      </DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{mb: 2}}>
+          {localization.conflictMessage ?? "Pick the value to keep for each field that differs from the saved record."}
+        </DialogContentText>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell/>
+              <TableCell>{localization.yours ?? "Yours"}</TableCell>
+              <TableCell>{localization.theirs ?? "Theirs"}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {fields.map(({columnId}) => (
+              <TableRow key={columnId}>
+                <TableCell component="th" scope="row" sx={{fontWeight: "bold"}}>
+                  {table.getColumn(columnId).columnDef.header}
+                </TableCell>
+                {renderChoice(columnId, 'mine')}
+                {renderChoice(columnId, 'theirs')}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>
+          {localization.cancel}
+        </Button>
+        <Button onClick={onKeepTheirs} color="warning">
+          {localization.keepTheirs ?? "Keep theirs"}
+        </Button>
+        <Button onClick={() => onResolve(Object.fromEntries(fields.map(({columnId}) => [columnId, 'mine'])))}>
+          {localization.keepMine ?? "Keep mine"}
+        </Button>
+        <Button onClick={() => onResolve(choices)} variant="contained">
+          {localization.saveMerged ?? "Save merged"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
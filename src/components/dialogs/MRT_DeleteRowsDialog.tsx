@@ -0,0 +1,107 @@
+import Dialog, {type DialogProps} from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Button from "@mui/material/Button";
+import Box from "@mui/material/Box";
+import Typography from "@mui/material/Typography";
+import type {MRT_Column, MRT_Row, MRT_RowData, MRT_TableInstance} from "material-react-table";
+import {renderViewCell} from "./renderViewCell";
+
+/** Rows listed in the confirmation of a multi-row delete */
+const LISTED_ROWS = 5;
+
+/**
+ * Props for the MRT_DeleteRowsDialog component
+ * @template TData - The data type for the table row
+ */
+export type MRT_DeleteRowsDialogProps<TData extends MRT_RowData> = Omit<DialogProps, 'open' | 'onClose'> & {
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+  /** The rows to delete */
+  rows: MRT_Row<TData>[];
+  /** Whether the confirmation is open */
+  open: boolean;
+  /** Closes the confirmation without deleting */
+  onClose: () => void;
+  /** Confirms the delete */
+  onConfirm: () => void;
+  /** Number of columns summarized per row (default 5 for one row, 3 per row for several) */
+  summaryColumnCount?: number;
+};
+
+/**
+ * MRT_DeleteRowsDialog - Delete confirmation summarizing the rows to delete
+ *
+ * Values are rendered the way MRT_EditDialog's view mode shows them, for the first visible columns.
+ * Several rows are listed one per line (up to 5, then "and N more").
+ * Already rendered by MRT_DeleteRowButton, so it is only needed on its own for custom layouts.
+ *
+ * Texts can be overridden through the table's localization: `confirmDelete`, `delete` and `cancel`.
+ *
+ * @template TData - The data type for the table row
+ *
+ * @since 1.2.0
+ */
+export const MRT_DeleteRowsDialog = <TData extends MRT_RowData>(
+  {table, rows, open, onClose, onConfirm, summaryColumnCount, ...dialogProps}: MRT_DeleteRowsDialogProps<TData>) => {
+  const {localization} = table.options;
+  const isSingle = rows.length === 1;
+  const columns = (table.getVisibleLeafColumns() as MRT_Column<TData>[])
+  .filter((column) => column.columnDef.columnDefType === "data")
+  .slice(0, summaryColumnCount ?? (isSingle ? 5 : 3));
+
+  const getCell = (row: MRT_Row<TData>, columnId: string) =>
+    row.getAllCells().find((cell) => cell.column.id === columnId);
+
+  return (
+    <Dialog maxWidth="sm" fullWidth {...dialogProps} open={open} onClose={onClose}>
+      <DialogTitle>
+        {localization.confirmDelete ?? (isSingle ? "Delete this row?" : `Delete ${rows.length} rows?`)}
+      </DialogTitle>
+      <DialogContent>
+        {isSingle
+          ? (
+            <Box component="dl" sx={{display: "grid", gridTemplateColumns: "max-content 1fr", columnGap: 2, rowGap: 1, m: 0}}>
+              {columns.map((column) => {
+                const cell = getCell(rows[0], column.id);
+                return cell && (
+                  <Box key={column.id} sx={{display: "contents"}}>
+                    <Box component="dt" sx={{fontWeight: "bold"}}>{column.columnDef.header}</Box>
+                    <Box component="dd" sx={{m: 0}}>{renderViewCell(cell, table)}</Box>
+                  </Box>
+                );
+              })}
+            </Box>
+          )
+          : (
+            <Box component="ul" sx={{m: 0, pl: 2}}>
+              {rows.slice(0, LISTED_ROWS).map((row) => (
+                <Box component="li" key={row.id} sx={{mb: 0.5}}>
+                  <Box sx={{display: "flex", flexWrap: "wrap", alignItems: "center", gap: 1}}>
+                    {columns.map((column) => {
+                      const cell = getCell(row, column.id);
+                      return cell && <Box component="span" key={column.id}>{renderViewCell(cell, table)}</Box>;
+                    })}
+                  </Box>
+                </Box>
+              ))}
+              {rows.length > LISTED_ROWS && (
+                <Typography component="li" variant="body2" sx={{color: "text.secondary", listStyle: "none"}}>
+                  and {rows.length - LISTED_ROWS} more
+                </Typography>
+              )}
+            </Box>
+          )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} autoFocus>
+          {localization.cancel}
+        </Button>
+        <Button onClick={onConfirm} color="error" variant="contained">
+          {localization.delete ?? "Delete"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,56 @@
+import Snackbar, {type SnackbarProps} from "@mui/material/Snackbar";
+import Button from "@mui/material/Button";
+import type {MRT_RowData, MRT_TableInstance} from "material-react-table";
+import {undoRowDelete, usePendingRowDeletes} from "../../state";
+
+/**
+ * Props for the MRT_DeleteUndoSnackbar component
+ * @template TData - The data type for the table row
+ */
+export type MRT_DeleteUndoSnackbarProps<TData extends MRT_RowData> =
+  Omit<SnackbarProps, 'open' | 'message' | 'action'> & {
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+};
+
+/**
+ * MRT_DeleteUndoSnackbar - "Row deleted" snackbar with an Undo action for deletes in their undo window
+ *
+ * Shows the latest delete started by MRT_DeleteRowButton with an `undoTimeout`, however many buttons started them.
+ * It reads the table's pending deletes, so render it once per table in a place that stays mounted
+ * (next to the table, or in `renderTopToolbarCustomActions`), not in a row.
+ *
+ * Texts can be overridden through the table's localization: `rowsDeleted` and `undo`.
+ *
+ * @template TData - The data type for the table row
+ *
+ * @example
+ * ```tsx
+ * <MaterialReactTable table={table}/>
+ * <MRT_DeleteUndoSnackbar table={table}/>
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_DeleteUndoSnackbar = <TData extends MRT_RowData>(
+  {table, ...snackbarProps}: MRT_DeleteUndoSnackbarProps<TData>) => {
+  const {localization} = table.options;
+  const pendingDeletes = usePendingRowDeletes(table);
+  const latest = pendingDeletes[pendingDeletes.length - 1];
+  const count = latest?.rows.length ?? 0;
+
+  return (
+    <Snackbar
+      {...snackbarProps}
+      // Keyed by delete, so a new delete shows as a new snackbar
+      key={latest?.batchId}
+      open={!!latest}
+      message={localization.rowsDeleted ?? (count === 1 ? 'Row deleted' : `${count} rows deleted`)}
+      action={
+        <Button color="inherit" size="small" onClick={() => latest && undoRowDelete(table, latest.batchId)}>
+          {localization.undo ?? 'Undo'}
+        </Button>
+      }
+    />
+  );
+};
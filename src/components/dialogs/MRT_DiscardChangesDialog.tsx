@@ -0,0 +1,68 @@
+import Dialog, {type DialogProps} from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogContentText from "@mui/material/DialogContentText";
+import DialogActions from "@mui/material/DialogActions";
+import Button from "@mui/material/Button";
+import type {MRT_RowData} from "material-react-table";
+import type {RTV} from "../buttons";
+import {clearDraft, getEditRowStore, useRowEditState} from "../../state";
+import {cancelEditingRow} from "../../utils";
+
+/**
+ * Props for the MRT_DiscardChangesDialog component
+ * @template TData - The data type for the table row
+ */
+export type MRT_DiscardChangesDialogProps<TData extends MRT_RowData> =
+  Pick<RTV<TData>, 'row' | 'table'> & Omit<DialogProps, 'open' | 'onClose'>;
+
+/**
+ * MRT_DiscardChangesDialog - "Discard changes?" confirmation for a dirty editing row
+ *
+ * Opens when `requestCancelEditingRow` (or `moveEditingRow`) is called for a row with unsaved changes.
+ * Already rendered by MRT_EditDialog, so it is only needed on its own for layouts without it (mount it once per row).
+ *
+ * Texts can be overridden through the table's localization:
+ * `discardChanges`, `discardChangesMessage`, `discard` and `keepEditing`.
+ *
+ * @template TData - The data type for the table row
+ */
+export const MRT_DiscardChangesDialog = <TData extends MRT_RowData>(
+  {table, row, ...dialogProps}: MRT_DiscardChangesDialogProps<TData>) => {
+  const {confirmingDiscard, discardAction} = useRowEditState(table, row.id);
+  const {localization} = table.options;
+
+  const handleKeepEditing = () =>
+    getEditRowStore(table).setRow(row.id, (prev) => ({...prev, confirmingDiscard: false, discardAction: undefined}));
+
+  const handleDiscard = () => {
+    handleKeepEditing();
+    clearDraft(table, row.id);
+    if (discardAction) discardAction();
+    else cancelEditingRow({table, row});
+  };
+
+  return (
+    <Dialog
+      maxWidth="xs"
+      {...dialogProps}
+      open={confirmingDiscard}
+      onClose={handleKeepEditing}
+    >
+      <DialogTitle>{localization.discardChanges ?? "Discard changes?"}</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          {localization.discardChangesMessage ?? "You have unsaved changes that will be lost."}
+        </DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleKeepEditing} autoFocus>
+          {localization.keepEditing ?? "Keep editing"}
+        </Button>
+        <Button onClick={handleDiscard} color="error">
+          {localization.discard ?? "Discard"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,9 +1,17 @@
-import {DialogTitle, DialogContent, DialogActions, Box, InputLabel} from "@mui/material";
+import {DialogTitle, DialogContent, DialogActions, Box, InputLabel, TextField, Typography} from "@mui/material";
 import type {MRT_RowData, MRT_Cell, MRT_Column, MRT_Row, MRT_TableInstance} from "material-react-table";
 import {AutoGrid, type AutoGridProps} from "@chris-c-brine/autogrid";
-import {isValidElement, ReactElement, ReactNode, useMemo} from "react";
-import {MRT_EditActionButtonsAlt, RTV} from "../buttons";
+import {isValidElement, ReactElement, ReactNode, useEffect, useMemo} from "react";
+import {MRT_EditActionButtonsAlt, MRT_EditRecordButton, MRT_RecordNavigationButtons, RTV} from "../buttons";
 import {MRT_EditCellTextFieldProps} from "../inputs";
+import {getEditSection} from "../../utils";
+import {getEditHistoryKeyDownHandler, getEditRowStore, isFieldVisible, isMixedValue, recomputeEditingRow, useRowEditState} from "../../state";
+import type {MRT_EditSectionLayout, MRT_EditSectionOptions, MRT_EditWizardStep} from "../../sections";
+import {MRT_EditDialogSections, type MRT_EditDialogField} from "./MRT_EditDialogSections";
+import {MRT_EditDialogWizard} from "./MRT_EditDialogWizard";
+import {renderViewCell} from "./renderViewCell";
+import {MRT_RestoreDraftDialog} from "./MRT_RestoreDraftDialog";
+import {MRT_DiscardChangesDialog} from "./MRT_DiscardChangesDialog";
 
 /**
  * Parameters for the renderViewComponent function
@@ -55,6 +63,21 @@ export type MRT_EditDialogProps<TData extends MRT_RowData> = AutoGridProps & RTV
    * @returns ReactNode - The custom rendered component
    */
   renderViewComponent?: (params: RenderViewComponentParams<TData>) => ReactNode,
+  /** Show undo/redo buttons next to the action buttons (Ctrl+Z / Ctrl+Shift+Z work either way) */
+  showHistoryButtons?: boolean,
+  /**
+   * Lays the fields out in sections (from each column's `editSection` or column group).
+   * Defaults to 'accordion' when any field has a section; 'none' keeps a single grid.
+   */
+  sectionLayout?: MRT_EditSectionLayout | 'none',
+  /** Settings per section name: title, columnCount and defaultExpanded */
+  sections?: Record<string, MRT_EditSectionOptions>,
+  /** Title of the section holding fields without a section (default "General") */
+  defaultSectionTitle?: string,
+  /** Ordered steps of column subsets; create mode is then shown as a wizard with Back/Next buttons */
+  wizardSteps?: MRT_EditWizardStep[],
+  /** Show previous/next record buttons in view and edit mode, following the table's sorted and filtered rows */
+  showNavigation?: boolean,
 };
 
 /**
@@ -67,6 +90,12 @@ export type MRT_EditDialogProps<TData extends MRT_RowData> = AutoGridProps & RTV
  *
  * The component integrates with AutoGrid for responsive layouts and supports
  * custom rendering of view components through the renderViewComponent prop.
+ * Columns with `visibleWhen` / `enabledWhen` are shown and enabled based on the live row values,
+ * and `computed` columns are shown as read-only fields that follow the values they derive from.
+ * Wide rows can be split into accordions or tabs by column group or `editSection`, in every mode,
+ * and create mode can be shown as a step-by-step wizard with `wizardSteps`.
+ * View mode offers an "Edit" button (when the row is editable), and `showNavigation` adds previous/next record buttons.
+ * For a bulk edit (see `setBulkEditingRow`), fields whose rows differ are marked "Mixed values" until changed.
  *
  * Usage Example (2 columns):
  * ```tsx
@@ -94,18 +123,34 @@ export const MRT_EditDialog = <TData extends MRT_RowData>(
     components,
     variant = "text",
     renderViewComponent,
+    showHistoryButtons,
+    sectionLayout,
+    sections,
+    defaultSectionTitle = "General",
+    wizardSteps,
+    showNavigation,
     ...autoGridProps
   }: MRT_EditDialogProps<TData>) => {
   const mode = row.id == "mrt-row-create" ? "create" : row.id == "mrt-row-view" ? "view" : "edit";
-  const dialogTitle = mode == "create" ? "Create" : mode == "view" ? "View" : "Edit";
 
-  const viewOnlyComponents = useMemo(() => {
+  // A new creating row starts over: no clone marker, undo history or wizard step left from the previous one
+  if (mode == "create") getEditRowStore(table).claimRow(row.id, row);
+
+  // Bring computed columns up to date with the values the dialog opens with, re-rendering when any moved
+  useEffect(() => {
+    if (!recomputeEditingRow(table, row).length) return;
+    getEditRowStore(table).setRow(row.id, (prev) => ({...prev, revision: prev.revision + 1}));
+  }, [table, row.id]);
+
+  const viewOnlyFields = useMemo((): MRT_EditDialogField<TData>[] => {
     if (mode !== 'view') return [];
     return (
       table
-      .getAllColumns()
-      // Data only --(groups && utility columns)
+      .getAllLeafColumns()
+      // Data only --(utility columns)
       .filter((column) => column.columnDef.columnDefType == "data")
+      // Conditionally hidden fields
+      .filter((column) => isFieldVisible(table, row, column))
       // Make into pretty readable components
       .map((column) => {
         // Use column header as title
@@ -115,41 +160,33 @@ export const MRT_EditDialog = <TData extends MRT_RowData>(
         const cell = row.getAllCells().find((c) => c.column.id === column.id);
         if (!cell) return null;
 
-        // Render the cell value the same way MRT would in the table
-        const value = cell.getValue<TData>();
-        const renderedCellValue = value !== null && value !== undefined ? String(value) : "";
-
-        const renderedComponent: ReactNode = column.columnDef.Cell
-          // If there's a custom Cell renderer, use it with all required parameters
-          ? column.columnDef.Cell({
-            cell,
-            column,
-            row,
-            table,
-            renderedCellValue,
-          })
-          // If there's a custom accessorFn, use it
-          : column.columnDef.accessorFn
-            ? column.columnDef.accessorFn(row.original) as ReactNode
-            // Otherwise use the raw value
-            : renderedCellValue;
+        const renderedComponent = renderViewCell(cell, table);
 
         // Provided > Default
-        if (renderViewComponent) return renderViewComponent({cell, table, title, renderedComponent});
-
-        return (
-          <Box key={column.id} sx={{mb: 2}}>
-            <InputLabel id={`${column.id}-label`} sx={{fontWeight: "bold", mb: 0.5}}>
-              {title}
-            </InputLabel>
-            <Box sx={{pt: 0.5}}>{renderedComponent}</Box>
-          </Box>
-        );
+        if (renderViewComponent) return {column, component: renderViewComponent({cell, table, title, renderedComponent})};
+
+        return {
+          column,
+          component: (
+            <Box key={column.id} sx={{mb: 2}}>
+              <InputLabel id={`${column.id}-label`} sx={{fontWeight: "bold", mb: 0.5}}>
+                {title}
+              </InputLabel>
+              <Box sx={{pt: 0.5}}>{renderedComponent}</Box>
+            </Box>
+          ),
+        };
       })
-      .filter(Boolean)
+      .filter((field): field is MRT_EditDialogField<TData> => field !== null)
     );
   }, [table, row, mode]);
 
+  // Re-render on every value write, so visibleWhen/enabledWhen follow the live values
+  const {errors, bulk, clonedFrom} = useRowEditState(table, row.id);
+  const dialogTitle = mode == "create"
+    ? clonedFrom !== undefined ? "Duplicate" : "Create"
+    : mode == "view" ? "View" : bulk ? `Edit ${bulk.rowIds.length} rows` : "Edit";
+
   const filteredComponents = useMemo(() => {
     if (!components) return [];
 
@@ -174,19 +211,110 @@ export const MRT_EditDialog = <TData extends MRT_RowData>(
     });
   }, [components]);
 
+  const visibleFields = filteredComponents
+  .map((component): MRT_EditDialogField<TData> => ({
+    column: (component.props as MRT_EditCellTextFieldProps<TData>).cell.column,
+    component,
+  }))
+  .filter(({column}) => isFieldVisible(table, row, column))
+  // A bulk edit never applies computed columns, they only make sense per row
+  .filter(({column}) => !(bulk && column.columnDef.computed))
+  // Bulk edit fields whose rows differ, until the user changes them
+  .map(({column, component}) => ({
+    column,
+    component: isMixedValue(table, row, column)
+      ? (
+        <Box key={column.id}>
+          {component}
+          <Typography variant="caption" sx={{color: "text.secondary", fontStyle: "italic"}}>
+            {table.options.localization.mixedValues ?? "Mixed values"}
+          </Typography>
+        </Box>
+      )
+      : component,
+  }))
+  // Computed columns are read-only and always show the current derived value
+  .map(({column, component}) => {
+    if (!column.columnDef.computed) return {column, component};
+    const value = row._valuesCache[column.id];
+    return {column, component: (
+      <TextField
+        key={column.id}
+        name={column.id}
+        label={column.columnDef.header}
+        value={value === null || value === undefined ? "" : String(value)}
+        variant="standard"
+        fullWidth
+        slotProps={{input: {readOnly: true}}}
+      />
+    )};
+  });
+
+  const fields = mode == "view" ? viewOnlyFields : visibleFields;
+  const layout = sectionLayout ?? (fields.some(({column}) => getEditSection(column) !== undefined) ? "accordion" : "none");
+
+  if (mode == "create" && wizardSteps?.length) {
+    return (
+      <>
+        <DialogTitle sx={{textAlign: "center"}}>{dialogTitle}</DialogTitle>
+        <MRT_EditDialogWizard
+          table={table}
+          row={row}
+          variant={variant}
+          fields={fields}
+          steps={wizardSteps}
+          showHistoryButtons={showHistoryButtons}
+          autoGridProps={autoGridProps}
+          onKeyDown={getEditHistoryKeyDownHandler({table, row})}
+        />
+        <MRT_RestoreDraftDialog key={row.id} table={table} row={row}/>
+        <MRT_DiscardChangesDialog table={table} row={row}/>
+      </>
+    );
+  }
+
   return (
     <>
-      <DialogTitle sx={{textAlign: "center"}}>{dialogTitle}</DialogTitle>
-      <DialogContent>
-        <AutoGrid
-          {...autoGridProps}
-          sx={{ justifyItems: "baseline", ...autoGridProps?.sx }}
-          components={mode == "view" ? viewOnlyComponents : filteredComponents}
-        />
+      {showNavigation && mode !== "create" && !bulk
+        ? (
+          <DialogTitle sx={{display: "flex", alignItems: "center", justifyContent: "space-between"}}>
+            {dialogTitle}
+            <MRT_RecordNavigationButtons table={table} row={row}/>
+          </DialogTitle>
+        )
+        : <DialogTitle sx={{textAlign: "center"}}>{dialogTitle}</DialogTitle>}
+      {/* Keyed by row, so editors start over when moving to another record */}
+      <DialogContent key={row.id} onKeyDown={mode == "view" ? undefined : getEditHistoryKeyDownHandler({table, row})}>
+        {layout == "none" ? (
+          <AutoGrid
+            {...autoGridProps}
+            sx={{ justifyItems: "baseline", ...autoGridProps?.sx }}
+            components={fields.map(({component}) => component)}
+          />
+        ) : (
+          <MRT_EditDialogSections
+            table={table}
+            fields={fields}
+            layout={layout}
+            sections={sections}
+            defaultSectionTitle={defaultSectionTitle}
+            errors={errors}
+            autoGridProps={autoGridProps}
+          />
+        )}
       </DialogContent>
       <DialogActions>
-        <MRT_EditActionButtonsAlt variant={variant} table={table} row={row} hideSubmitButton={mode === "view"}/>
+        {mode === "view" && <MRT_EditRecordButton table={table} row={row} variant={variant}/>}
+        <MRT_EditActionButtonsAlt
+          variant={variant}
+          table={table}
+          row={row}
+          hideSubmitButton={mode === "view"}
+          showHistoryButtons={showHistoryButtons && mode !== "view"}
+        />
       </DialogActions>
+      {mode !== "view" && !bulk && <MRT_RestoreDraftDialog key={row.id} table={table} row={row}/>}
+      {mode !== "view" && <MRT_DiscardChangesDialog table={table} row={row}/>}
     </>
   );
 };
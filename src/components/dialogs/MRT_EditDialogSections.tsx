@@ -0,0 +1,162 @@
+// src/components/dialogs/MRT_EditDialogSections.tsx
+import {useState, type ReactNode, type SyntheticEvent} from "react";
+import Accordion from "@mui/material/Accordion";
+import AccordionSummary from "@mui/material/AccordionSummary";
+import AccordionDetails from "@mui/material/AccordionDetails";
+import Badge from "@mui/material/Badge";
+import Box from "@mui/material/Box";
+import Tab from "@mui/material/Tab";
+import Tabs from "@mui/material/Tabs";
+import Typography from "@mui/material/Typography";
+import type {MRT_Column, MRT_RowData, MRT_TableInstance} from "material-react-table";
+import {AutoGrid, type AutoGridProps} from "@chris-c-brine/autogrid";
+import type {MRT_ValidationErrors} from "../../validation";
+import type {MRT_EditSectionLayout, MRT_EditSectionOptions} from "../../sections";
+import {getEditSection} from "../../utils";
+
+/**
+ * A dialog field and the column it belongs to
+ * @private
+ */
+export interface MRT_EditDialogField<TData extends MRT_RowData> {
+  column: MRT_Column<TData>;
+  component: ReactNode;
+}
+
+/**
+ * Props for MRT_EditDialogSections
+ * @private
+ */
+interface MRT_EditDialogSectionsProps<TData extends MRT_RowData> {
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+  /** The fields to lay out, in column order */
+  fields: MRT_EditDialogField<TData>[];
+  /** Accordions or tabs */
+  layout: MRT_EditSectionLayout;
+  /** Settings per section name */
+  sections?: Record<string, MRT_EditSectionOptions>;
+  /** Title of the section holding fields without a section */
+  defaultSectionTitle: string;
+  /** Current validation errors of the row, used to mark sections */
+  errors: MRT_ValidationErrors;
+  /** Props for every section's AutoGrid */
+  autoGridProps: AutoGridProps;
+}
+
+/**
+ * Groups fields by section, in order of each section's first field
+ * @private
+ */
+const groupFields = <TData extends MRT_RowData>(fields: MRT_EditDialogField<TData>[]) => {
+  const groups = new Map<string | undefined, MRT_EditDialogField<TData>[]>();
+  fields.forEach((field) => {
+    const section = getEditSection(field.column);
+    groups.set(section, [...(groups.get(section) ?? []), field]);
+  });
+  return [...groups].map(([name, sectionFields]) => ({name, fields: sectionFields}));
+};
+
+/**
+ * Lays out MRT_EditDialog's fields as titled accordions or tabs, with one AutoGrid per section.
+ * Sections holding fields with validation errors are marked.
+ *
+ * Every section stays mounted, so editors keep their state while collapsed or on another tab.
+ *
+ * @private
+ */
+export const MRT_EditDialogSections = <TData extends MRT_RowData>(
+  {
+    table,
+    fields,
+    layout,
+    sections,
+    defaultSectionTitle,
+    errors,
+    autoGridProps,
+  }: MRT_EditDialogSectionsProps<TData>) => {
+  const {options: {icons: {ExpandMoreIcon}}} = table;
+  const [activeTab, setActiveTab] = useState(0);
+
+  const groups = groupFields(fields).map((group) => {
+    const options = group.name === undefined ? undefined : sections?.[group.name];
+    return {
+      ...group,
+      key: group.name ?? "",
+      options,
+      title: options?.title ?? group.name ?? defaultSectionTitle,
+      errorCount: group.fields.filter(({column}) => errors[column.id]).length,
+    };
+  });
+
+  // Sections can disappear with visibleWhen, so keep the tab index in range
+  const tab = Math.min(activeTab, Math.max(groups.length - 1, 0));
+
+  const renderGrid = (group: typeof groups[number]) => (
+    <AutoGrid
+      {...autoGridProps}
+      columnCount={group.options?.columnCount ?? autoGridProps.columnCount}
+      sx={{justifyItems: "baseline", ...autoGridProps?.sx}}
+      components={group.fields.map(({component}) => component)}
+    />
+  );
+
+  if (layout === "tabs") {
+    return (
+      <>
+        <Tabs
+          value={tab}
+          onChange={(_event: SyntheticEvent, value: number) => setActiveTab(value)}
+          variant="scrollable"
+          scrollButtons="auto"
+          sx={{mb: 2, borderBottom: 1, borderColor: "divider"}}
+        >
+          {groups.map((group, index) => (
+            <Tab
+              key={group.key}
+              id={`mrt-edit-section-tab-${index}`}
+              aria-controls={`mrt-edit-section-panel-${index}`}
+              sx={group.errorCount ? {color: "error.main"} : undefined}
+              label={
+                <Badge color="error" variant="dot" invisible={!group.errorCount}>
+                  {group.title}
+                </Badge>
+              }
+            />
+          ))}
+        </Tabs>
+        {groups.map((group, index) => (
+          <Box
+            key={group.key}
+            role="tabpanel"
+            id={`mrt-edit-section-panel-${index}`}
+            aria-labelledby={`mrt-edit-section-tab-${index}`}
+            hidden={index !== tab}
+          >
+            {renderGrid(group)}
+          </Box>
+        ))}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {groups.map((group) => (
+        <Accordion key={group.key} defaultExpanded={group.options?.defaultExpanded ?? true} disableGutters>
+          <AccordionSummary expandIcon={<ExpandMoreIcon/>}>
+            <Typography sx={{fontWeight: "bold", color: group.errorCount ? "error.main" : undefined}}>
+              {group.title}
+            </Typography>
+            {group.errorCount > 0 && (
+              <Typography variant="body2" sx={{ml: 1, color: "error.main"}}>
+                ({group.errorCount} {group.errorCount === 1 ? "error" : "errors"})
+              </Typography>
+            )}
+          </AccordionSummary>
+          <AccordionDetails>{renderGrid(group)}</AccordionDetails>
+        </Accordion>
+      ))}
+    </>
+  );
+};
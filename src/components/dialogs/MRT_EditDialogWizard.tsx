@@ -0,0 +1,142 @@
+// src/components/dialogs/MRT_EditDialogWizard.tsx
+import {useState, type KeyboardEvent} from "react";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import DialogActions from "@mui/material/DialogActions";
+import DialogContent from "@mui/material/DialogContent";
+import Step from "@mui/material/Step";
+import StepButton from "@mui/material/StepButton";
+import StepLabel from "@mui/material/StepLabel";
+import Stepper from "@mui/material/Stepper";
+import Typography from "@mui/material/Typography";
+import type {MRT_RowData} from "material-react-table";
+import {AutoGrid, type AutoGridProps} from "@chris-c-brine/autogrid";
+import {MRT_CloseDialogButton, MRT_EditHistoryButtons, MRT_SubmitDialogButton, type RTV} from "../buttons";
+import {getEditRowStore, useRowEditState, waitForAsyncValidation} from "../../state";
+import type {MRT_EditWizardStep} from "../../sections";
+import {validateEditingRow} from "../../utils";
+import type {MRT_EditDialogField} from "./MRT_EditDialogSections";
+
+/**
+ * Props for MRT_EditDialogWizard
+ * @private
+ */
+interface MRT_EditDialogWizardProps<TData extends MRT_RowData> extends RTV<TData> {
+  /** The fields to lay out, in column order */
+  fields: MRT_EditDialogField<TData>[];
+  /** The ordered steps */
+  steps: MRT_EditWizardStep[];
+  /** Show undo/redo buttons next to the action buttons */
+  showHistoryButtons?: boolean;
+  /** Props for every step's AutoGrid */
+  autoGridProps: AutoGridProps;
+  /** Key handler of the dialog content (undo/redo shortcuts) */
+  onKeyDown?: (event: KeyboardEvent) => void;
+}
+
+/**
+ * Create-mode wizard of MRT_EditDialog: a stepper header, one grid per step and Back/Next buttons.
+ *
+ * Next validates the current step's columns (awaiting async validators) before moving on;
+ * the last step saves through MRT_SubmitDialogButton. The current step is kept in the row's
+ * edit state, so it survives re-renders of the dialog and resets once the row is saved or cancelled.
+ * Every step stays mounted, so editors keep their state while another step is shown.
+ *
+ * @private
+ */
+export const MRT_EditDialogWizard = <TData extends MRT_RowData>(
+  {
+    table,
+    row,
+    variant,
+    fields,
+    steps,
+    showHistoryButtons,
+    autoGridProps,
+    onKeyDown,
+  }: MRT_EditDialogWizardProps<TData>) => {
+  const {localization} = table.options;
+  const {errors, wizardStep} = useRowEditState(table, row.id);
+  const [isValidating, setIsValidating] = useState(false);
+
+  const lastStep = steps.length - 1;
+  const activeStep = Math.min(wizardStep, lastStep);
+  const listed = new Set(steps.flatMap((step) => step.columns));
+
+  // Fields not listed in any step go to the last one
+  const stepFields = steps.map((step, index) => fields.filter(({column}) =>
+    step.columns.includes(column.id) || (index === lastStep && !listed.has(column.id))
+  ));
+
+  const setStep = (step: number) =>
+    getEditRowStore(table).setRow(row.id, (prev) => ({...prev, wizardStep: step}));
+
+  const hasStepErrors = (index: number, stepErrors = errors) =>
+    stepFields[index].some(({column}) => stepErrors[column.id]);
+
+  /**
+   * Validates the current step and moves to the next one when it passes
+   * @private
+   */
+  const handleNext = async () => {
+    const columnIds = stepFields[activeStep].map(({column}) => column.id);
+    if (hasStepErrors(activeStep, validateEditingRow(table, row, columnIds))) return;
+
+    setIsValidating(true);
+    await waitForAsyncValidation(table, row.id);
+    setIsValidating(false);
+    if (hasStepErrors(activeStep, getEditRowStore(table).getRow(row.id).errors)) return;
+
+    setStep(activeStep + 1);
+  };
+
+  return (
+    <>
+      <DialogContent onKeyDown={onKeyDown}>
+        <Stepper activeStep={activeStep} alternativeLabel sx={{mb: 3, pt: 1}}>
+          {steps.map((step, index) => (
+            <Step key={index} completed={index < activeStep}>
+              {/* Earlier steps can be revisited directly */}
+              <StepButton disabled={index >= activeStep} onClick={() => setStep(index)}>
+                <StepLabel
+                  error={hasStepErrors(index)}
+                  optional={step.description && <Typography variant="caption">{step.description}</Typography>}
+                >
+                  {step.title}
+                </StepLabel>
+              </StepButton>
+            </Step>
+          ))}
+        </Stepper>
+        {steps.map((step, index) => (
+          <Box key={index} hidden={index !== activeStep}>
+            <AutoGrid
+              {...autoGridProps}
+              columnCount={step.columnCount ?? autoGridProps.columnCount}
+              sx={{justifyItems: "baseline", ...autoGridProps?.sx}}
+              components={stepFields[index].map(({component}) => component)}
+            />
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Box onClick={(e) => e.stopPropagation()} sx={{display: 'flex', gap: '0.75rem'}}>
+          {showHistoryButtons && <MRT_EditHistoryButtons row={row} table={table} variant={variant}/>}
+          <MRT_CloseDialogButton row={row} table={table} variant={variant}/>
+          <Button disabled={activeStep === 0 || isValidating} onClick={() => setStep(activeStep - 1)}>
+            {localization.back ?? 'Back'}
+          </Button>
+          {activeStep < lastStep
+            ? (
+              <Button disabled={isValidating} onClick={handleNext} sx={{minWidth: '100px'}} variant="contained">
+                {isValidating && <CircularProgress color="inherit" size={18}/>}
+                {localization.next ?? 'Next'}
+              </Button>
+            )
+            : <MRT_SubmitDialogButton row={row} table={table} variant={variant}/>}
+        </Box>
+      </DialogActions>
+    </>
+  );
+};
@@ -0,0 +1,70 @@
+import {useState} from "react";
+import Dialog, {type DialogProps} from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogContentText from "@mui/material/DialogContentText";
+import DialogActions from "@mui/material/DialogActions";
+import Button from "@mui/material/Button";
+import type {MRT_RowData} from "material-react-table";
+import type {RTV} from "../buttons";
+import {applyDraft, clearDraft, getEditRowStore, readDraft} from "../../state";
+
+/**
+ * Props for the MRT_RestoreDraftDialog component
+ * @template TData - The data type for the table row
+ */
+export type MRT_RestoreDraftDialogProps<TData extends MRT_RowData> =
+  Pick<RTV<TData>, 'row' | 'table'> & Omit<DialogProps, 'open' | 'onClose'>;
+
+/**
+ * MRT_RestoreDraftDialog - "Restore draft?" prompt for a row with an autosaved draft
+ *
+ * Reads the row's draft when it mounts (see the table's `drafts` option) and offers to restore it;
+ * discarding deletes the draft, while dismissing it keeps the draft until the next autosave.
+ * Not shown for rows duplicated with `setCloningRow`.
+ * Already rendered by MRT_EditDialog, so it is only needed on its own for custom layouts
+ * (keyed by row id, so it asks again for every record).
+ *
+ * Texts can be overridden through the table's localization:
+ * `restoreDraft`, `restoreDraftMessage`, `restore` and `discard`.
+ *
+ * @template TData - The data type for the table row
+ *
+ * @since 1.2.0
+ */
+export const MRT_RestoreDraftDialog = <TData extends MRT_RowData>(
+  {table, row, ...dialogProps}: MRT_RestoreDraftDialogProps<TData>) => {
+  const {localization} = table.options;
+  const [draft, setDraft] = useState(() =>
+    getEditRowStore(table).getRow(row.id).clonedFrom === undefined ? readDraft(table, row.id) : undefined);
+
+  const handleRestore = () => {
+    if (draft) applyDraft({table, row}, draft);
+    setDraft(undefined);
+  };
+
+  const handleDiscard = () => {
+    clearDraft(table, row.id);
+    setDraft(undefined);
+  };
+
+  return (
+    <Dialog maxWidth="xs" {...dialogProps} open={!!draft} onClose={() => setDraft(undefined)}>
+      <DialogTitle>{localization.restoreDraft ?? "Restore draft?"}</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          {localization.restoreDraftMessage
+            ?? `You have unsaved changes from ${draft ? new Date(draft.savedAt).toLocaleString(localization.language) : ""}.`}
+        </DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleDiscard} color="error">
+          {localization.discard ?? "Discard"}
+        </Button>
+        <Button onClick={handleRestore} variant="contained" autoFocus>
+          {localization.restore ?? "Restore"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1 +1,6 @@
-export * from './MRT_EditDialog'
\ No newline at end of file
+export * from './MRT_EditDialog'
+export * from './MRT_DiscardChangesDialog'
+export * from './MRT_DeleteRowsDialog'
+export * from './MRT_DeleteUndoSnackbar'
+export * from './MRT_ConflictDialog'
+export * from './MRT_RestoreDraftDialog'
@@ -0,0 +1,42 @@
+// src/components/dialogs/renderViewCell.tsx
+import type {ReactNode} from "react";
+import type {MRT_Cell, MRT_RowData, MRT_TableInstance} from "material-react-table";
+import {MRT_Markdown, MRT_ViewValue} from "../inputs";
+import {getLookupLabel} from "../../lookup";
+
+/**
+ * Renders a cell's value read-only, the way MRT_EditDialog's view mode shows it
+ *
+ * Custom `Cell` renderers win; Markdown columns are rendered as Markdown,
+ * and everything else (including accessor function values) is formatted by MRT_ViewValue.
+ *
+ * @private
+ */
+export const renderViewCell = <TData extends MRT_RowData>(
+  cell: MRT_Cell<TData>,
+  table: MRT_TableInstance<TData>
+): ReactNode => {
+  const {column, row} = cell;
+
+  // Render the cell value the same way MRT would in the table
+  // (stored keys of lookup columns are shown as their option labels)
+  const value = cell.getValue<TData>();
+  const renderedCellValue = column.columnDef.lookup
+    ? getLookupLabel(column.columnDef.lookup, value)
+    : value !== null && value !== undefined ? String(value) : "";
+
+  return column.columnDef.Cell
+    // If there's a custom Cell renderer, use it with all required parameters
+    ? column.columnDef.Cell({
+      cell,
+      column,
+      row,
+      table,
+      renderedCellValue,
+    })
+    // Sanitized Markdown for Markdown columns
+    : column.columnDef.markdown
+    ? <MRT_Markdown source={renderedCellValue}/>
+    // Otherwise format the value by its type (or the column's viewFormat)
+    : <MRT_ViewValue cell={cell} table={table}/>;
+};
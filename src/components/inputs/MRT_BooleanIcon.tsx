@@ -0,0 +1,40 @@
+// src/components/inputs/MRT_BooleanIcon.tsx
+import {createSvgIcon} from "@mui/material/utils";
+import type {SvgIconProps} from "@mui/material/SvgIcon";
+
+const CheckIcon = createSvgIcon(
+  <path d="M9 16.17 4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>,
+  'Check'
+);
+
+const CrossIcon = createSvgIcon(
+  <path d="M19 6.41 17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>,
+  'Close'
+);
+
+/**
+ * Props for the MRT_BooleanIcon component.
+ */
+export type MRT_BooleanIconProps = Omit<SvgIconProps, 'children'> & {
+  /** The value to show; null/undefined render an em dash. */
+  value: boolean | null | undefined;
+};
+
+/**
+ * Read-only display of a boolean value: a green check for true, a cross for false.
+ *
+ * Used by MRT_EditDialog's view mode, and handy in a column's `Cell` renderer.
+ *
+ * @example
+ * ```tsx
+ * Cell: ({cell}) => <MRT_BooleanIcon value={cell.getValue<boolean>()}/>
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_BooleanIcon = ({value, ...iconProps}: MRT_BooleanIconProps) => {
+  if (value === null || value === undefined) return <>—</>;
+  return value
+    ? <CheckIcon color="success" fontSize="small" titleAccess="Yes" {...iconProps}/>
+    : <CrossIcon color="disabled" fontSize="small" titleAccess="No" {...iconProps}/>;
+};
@@ -1,9 +1,21 @@
 // src/components/inputs/MRT_EditCellAutocomplete.tsx
 import {Autocomplete, TextField, type TextFieldProps} from "@mui/material";
 import type { AutocompleteProps, AutocompleteValue } from "@mui/material";
-import {getTextFieldProps, updateEditingRow } from "../../utils"
+import {getTextFieldProps, updateEditingRow} from "../../utils";
+import {isFieldEnabled, useCellValidation, useCellValueSync} from "../../state";
+import {PendingAdornment} from "./PendingAdornment";
+import {findCachedOption, type MRT_LoadOptions, useRemoteOptions} from "./useRemoteOptions";
+import {useCellKeyboardNavigation} from "./useCellKeyboardNavigation";
+import {getOptionKeyReader, type MRT_OptionLookup} from "../../lookup";
 import type { MRT_Cell, MRT_RowData, MRT_TableInstance } from "material-react-table";
-import { useState, SyntheticEvent } from "react";
+import { useEffect, useRef, useState, SyntheticEvent, type UIEvent } from "react";
+import CircularProgress from "@mui/material/CircularProgress";
+
+export {
+  createInMemoryOptionsLoader,
+  type MRT_LoadOptions,
+  type MRT_OptionsPage
+} from "./useRemoteOptions";
 
 
 /**
@@ -24,15 +36,27 @@ export interface MRT_EditCellAutocompleteProps<
 > extends Partial<
   Omit<
     AutocompleteProps<TOption, Multiple, DisableClearable, FreeSolo>,
-    "onChange"
+    "onChange" | "options"
   >
 > {
   /** The cell to be edited. */
   cell: MRT_Cell<TData>;
   /** The table instance. */
   table: MRT_TableInstance<TData>;
-  /** The options for the autocomplete. */
-  options: readonly TOption[];
+  /** The options for the autocomplete. Required unless `loadOptions` or the column's `lookup.options` is set. */
+  options?: readonly TOption[];
+  /**
+   * Loads the options remotely instead, as the user types.
+   * Keep the function stable (module-level or memoized): results are cached per loader and query.
+   */
+  loadOptions?: MRT_LoadOptions<TOption>;
+  /**
+   * Loads the option of a stored key that isn't among the loaded options yet (with a key-valued `lookup`, e.g. next to
+   * `loadOptions`), so the current value shows its label before the list was ever opened.
+   */
+  loadOption?: (key: unknown, context: { signal: AbortSignal }) => Promise<TOption | null | undefined>;
+  /** Delay in milliseconds between the last keystroke and the `loadOptions` call. Defaults to 300. */
+  debounceMs?: number;
   /** Whether to show the label. */
   showLabel?: boolean;
 }
@@ -45,6 +69,13 @@ export interface MRT_EditCellAutocompleteProps<
  * allowing for single or multiple selection, custom rendering, and seamless integration
  * with Material React Table's editing workflow.
  *
+ * With `valueKey` / `getOptionValue` in the column's `lookup` only the option's key is stored in the row
+ * (an array of keys in `multiple` mode), and stored keys are shown as their options. The key settings are only
+ * read from the column, so view mode and the delete confirmation show the same labels as the editor.
+ *
+ * In cell editing mode, Tab/Enter (with Shift to go back) move to the next editable cell while the list is closed,
+ * and Escape restores the original value.
+ *
  * @example
  * ```jsx
  * <MRT_EditCellAutocomplete
@@ -53,6 +84,19 @@ export interface MRT_EditCellAutocompleteProps<
  *   options={['Option 1', 'Option 2', 'Option 3']}
  *   showLabel
  * />
+ *
+ * // Remote search with paging; the loader is module-level, as results are cached per loader
+ * const loadCustomers: MRT_LoadOptions<Customer> = (query, {signal, page}) =>
+ *   fetch(`/api/customers?q=${encodeURIComponent(query)}&page=${page}`, {signal}).then((res) => res.json());
+ *
+ * <MRT_EditCellAutocomplete
+ *   cell={cell}
+ *   table={table}
+ *   loadOptions={loadCustomers}
+ *   loadOption={(id, {signal}) => fetch(`/api/customers/${id}`, {signal}).then((res) => res.json())}
+ * />
+ *
+ * // On the column: lookup: {valueKey: 'id', getOptionLabel: (customer: Customer) => customer.name} (stores customerId: 42)
  * ```
  *
  * @since 1.0.0
@@ -67,41 +111,167 @@ export const MRT_EditCellAutocomplete = <
   cell,
   showLabel,
   table,
+  options,
+  loadOptions,
+  loadOption,
+  debounceMs = 300,
   ...AutocompleteProps
 }: MRT_EditCellAutocompleteProps<TData, TOption, Multiple, DisableClearable, FreeSolo>) => {
   const { columnDef } = cell.column;
 
-  const defaultValue = !AutocompleteProps?.multiple
-    ? cell.getValue<TData["options"][number]>() // Single option type
-    : cell.getValue<TData["options"]>() || ([] as TData["options"]); // Multiple options type (same as options)
+  // Key and label settings come from the column only, as they are shared with view mode
+  const lookup = (columnDef.lookup ?? {}) as MRT_OptionLookup<TOption>;
+  const toKey = getOptionKeyReader(lookup);
+
+  // The stored value: option(s), or key(s) when a key reader is set
+  const [value, setValue] = useState<unknown>(() =>
+    AutocompleteProps?.multiple ? cell.getValue() || [] : cell.getValue()
+  );
+  const {error, pending, validate} = useCellValidation({cell, table});
+  useCellValueSync({cell, table}, (newValue) => setValue(newValue));
+
+  const [open, setOpen] = useState(false);
+  const {isCellEdit, handleNavigationKeyDown} = useCellKeyboardNavigation({cell, table});
+  const remote = useRemoteOptions({loadOptions, debounceMs, open: AutocompleteProps.open ?? open});
+  const availableOptions = loadOptions ? remote.options : options ?? lookup.options ?? [];
+
+  // Selected options by key, so remote selections stay resolvable after the options change
+  const selectedRef = useRef(new Map<unknown, TOption>());
 
-  const [value, setValue] = useState(defaultValue);
+  /**
+   * Turns a stored key back into its option
+   */
+  const findOption = (key: unknown) => {
+    if (!toKey) return key as TOption;
+    const matches = (option: TOption) => toKey(option) === key;
+    return availableOptions.find(matches)
+      ?? selectedRef.current.get(key)
+      ?? (loadOptions ? findCachedOption(loadOptions, matches) : undefined)
+      ?? (AutocompleteProps.freeSolo && typeof key === 'string' ? key as TOption : undefined);
+  };
+
+  // Stored keys not found in any loaded option, fetched one by one through `loadOption`
+  const [, setResolvedCount] = useState(0);
+  const storedKeys = !toKey || value === null || value === undefined ? [] : Array.isArray(value) ? value : [value];
+  const missingKeys = loadOption ? storedKeys.filter((key) => findOption(key) === undefined) : [];
+  const missingSignature = JSON.stringify(missingKeys);
+  const loadOptionRef = useRef(loadOption);
+  loadOptionRef.current = loadOption;
+
+  useEffect(() => {
+    const resolve = loadOptionRef.current;
+    if (!resolve || !missingKeys.length) return;
+    const controller = new AbortController();
+    void Promise.all(missingKeys.map(async (key) => {
+      try {
+        const option = await resolve(key, {signal: controller.signal});
+        if (option !== null && option !== undefined) selectedRef.current.set(key, option);
+      } catch {
+        // Unresolvable keys stay empty, as without `loadOption`
+      }
+    })).then(() => {
+      if (!controller.signal.aborted) setResolvedCount((count) => count + 1);
+    });
+    return () => controller.abort();
+  }, [missingSignature]);
+
+  /**
+   * Turns a selected option into the stored value (free-solo strings are stored as typed)
+   */
+  const toStored = (option: TOption | string) => {
+    if (!toKey || option === null || typeof option !== 'object') return option;
+    const key = toKey(option as TOption);
+    selectedRef.current.set(key, option as TOption);
+    return key;
+  };
+
+  const displayValue = (
+    !toKey
+      ? value
+      : Array.isArray(value)
+        ? value.map(findOption).filter((option) => option !== undefined)
+        : value === null || value === undefined ? null : findOption(value) ?? null
+  ) as AutocompleteValue<TOption, Multiple, DisableClearable, FreeSolo>;
 
   const handleOnChange = (_e: SyntheticEvent, newValue: AutocompleteValue<TOption, Multiple, DisableClearable, FreeSolo>) => {
-    updateEditingRow(table, cell, newValue);
-    setValue(newValue);
+    const stored = !toKey || newValue === null
+      ? newValue
+      : Array.isArray(newValue) ? newValue.map(toStored) : toStored(newValue as TOption | string);
+    updateEditingRow(table, cell, stored);
+    setValue(stored);
   };
 
   const textFieldProps = getTextFieldProps({cell, table});
 
   return (
     <Autocomplete
-      disabled={
-        (columnDef.enableEditing instanceof Function
-          ? columnDef.enableEditing(cell.row)
-          : columnDef.enableEditing) === false
-      }
+      disabled={!isFieldEnabled(table, cell.row, cell.column)}
       renderInput={(params) => (
         <TextField
           label={showLabel ? columnDef.header : undefined}
           margin="none"
+          autoFocus={isCellEdit}
           {...textFieldProps}
           {...params}
+          error={!!error || textFieldProps.error}
+          helperText={error ?? textFieldProps.helperText}
+          slotProps={{
+            ...params.slotProps,
+            input: {
+              ...params.slotProps.input,
+              endAdornment: (
+                <>
+                  {pending && <PendingAdornment/>}
+                  {loadOptions && remote.loading && <CircularProgress size={16} aria-label="Loading"/>}
+                  {params.slotProps.input.endAdornment}
+                </>
+              ),
+            },
+          }}
         />
       )}
-      value={value}
+      value={displayValue}
       onChange={handleOnChange}
+      options={availableOptions}
+      {...(lookup.getOptionLabel ? {getOptionLabel: lookup.getOptionLabel as (option: TOption | string) => string} : {})}
+      {...(toKey ? {isOptionEqualToValue: (option: TOption, selected: unknown) => toKey(option) === toKey(selected as TOption)} : {})}
+      {...(loadOptions ? {
+        loading: remote.loading,
+        filterOptions: (remoteOptions: TOption[]) => remoteOptions, // filtered by the loader
+      } : {})}
       {...AutocompleteProps}
+      onOpen={(event) => {
+        setOpen(true);
+        AutocompleteProps.onOpen?.(event);
+      }}
+      onClose={(event, reason) => {
+        setOpen(false);
+        AutocompleteProps.onClose?.(event, reason);
+      }}
+      onInputChange={(event, inputValue, reason) => {
+        if (reason === 'input' || reason === 'clear') remote.setQuery(inputValue);
+        AutocompleteProps.onInputChange?.(event, inputValue, reason);
+      }}
+      slotProps={{
+        ...AutocompleteProps.slotProps,
+        listbox: {
+          ...AutocompleteProps.slotProps?.listbox,
+          onScroll: (event: UIEvent<HTMLElement>) => {
+            remote.onListboxScroll(event);
+            (AutocompleteProps.slotProps?.listbox as { onScroll?: (e: UIEvent<HTMLElement>) => void } | undefined)
+              ?.onScroll?.(event);
+          },
+        },
+      }}
+      onKeyDown={(event) => {
+        AutocompleteProps.onKeyDown?.(event);
+        // An open list keeps Enter and Escape for picking and closing
+        if (!(AutocompleteProps.open ?? open)) handleNavigationKeyDown(event);
+      }}
+      onBlur={(event) => {
+        AutocompleteProps.onBlur?.(event);
+        validate();
+      }}
     />
   );
 };
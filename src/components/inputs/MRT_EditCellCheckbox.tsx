@@ -0,0 +1,74 @@
+// src/components/inputs/MRT_EditCellCheckbox.tsx
+import Checkbox, {type CheckboxProps} from "@mui/material/Checkbox";
+import FormControl from "@mui/material/FormControl";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import FormHelperText from "@mui/material/FormHelperText";
+import type {MRT_Cell, MRT_RowData, MRT_TableInstance} from "material-react-table";
+import {useBooleanCell} from "./useBooleanCell";
+import {PendingAdornment} from "./PendingAdornment";
+
+/**
+ * Props for the MRT_EditCellCheckbox component.
+ */
+export type MRT_EditCellCheckboxProps<TData extends MRT_RowData> =
+  Omit<CheckboxProps, 'checked' | 'defaultChecked' | 'indeterminate' | 'onChange'> & {
+  /** The cell to be edited. */
+  cell: MRT_Cell<TData>;
+  /** The table instance. */
+  table: MRT_TableInstance<TData>;
+  /** Allow a third, indeterminate state stored as null. Defaults to false. */
+  allowNull?: boolean;
+  /** Whether to show the column header next to the checkbox. Defaults to true in modal/custom display modes. */
+  showLabel?: boolean;
+};
+
+/**
+ * @file MRT_EditCellCheckbox.tsx
+ * @description A Checkbox component for Material React Table cell editing.
+ *
+ * Stores real booleans through updateEditingRow (never the "true"/"false" strings of a select),
+ * or null for the indeterminate state when `allowNull` is set (false → true → null → false).
+ * In cell mode the checkbox takes focus, so Space toggles it, and the change is saved
+ * right away, the same way the date picker's `onAccept` saves.
+ *
+ * @example
+ * ```jsx
+ * {
+ *   accessorKey: 'active',
+ *   header: 'Active',
+ *   Edit: ({cell, table}) => <MRT_EditCellCheckbox cell={cell} table={table}/>,
+ * }
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_EditCellCheckbox = <TData extends MRT_RowData>(
+  {cell, table, allowNull, showLabel, ...checkboxProps}: MRT_EditCellCheckboxProps<TData>
+) => {
+  const {value, toggle, error, pending, isCellEdit, disabled, label} = useBooleanCell({cell, table, allowNull});
+  const shownLabel = showLabel === false ? undefined : showLabel ? cell.column.columnDef.header : label;
+
+  const checkbox = (
+    <Checkbox
+      autoFocus={isCellEdit}
+      disabled={disabled}
+      name={cell.column.id}
+      {...checkboxProps}
+      checked={value === true}
+      indeterminate={value === null}
+      onChange={toggle}
+      onClick={(e) => {
+        e.stopPropagation();
+        checkboxProps.onClick?.(e);
+      }}
+    />
+  );
+
+  return (
+    <FormControl error={!!error}>
+      {shownLabel ? <FormControlLabel control={checkbox} label={shownLabel} disabled={disabled}/> : checkbox}
+      {pending && <PendingAdornment/>}
+      {error && <FormHelperText>{error}</FormHelperText>}
+    </FormControl>
+  );
+};
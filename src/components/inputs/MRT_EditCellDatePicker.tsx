@@ -3,19 +3,16 @@ import {
   DatePicker,
   type DatePickerProps,
 } from '@mui/x-date-pickers/DatePicker';
-import dayjs, {type Dayjs} from 'dayjs';
+import dayjs from 'dayjs';
 import type {
   MRT_Cell,
   MRT_RowData,
   MRT_TableInstance,
 } from 'material-react-table';
 import {XDateLocalizationProvider} from '../../state';
-import {getDateJsTextFieldProps, updateEditingRow} from '../../utils';
-import {useState} from 'react';
-import type {
-  PickerChangeHandlerContext,
-  DateValidationError,
-} from '@mui/x-date-pickers';
+import {DATE_VALUE_FORMAT} from '../../utils';
+import type {MRT_DateValueFormat} from '../../dateSerialization';
+import {usePickerCell} from './usePickerCell';
 
 export type MRT_EditCellDatePickerProps<
   TData extends Record<string | number, unknown>
@@ -26,20 +23,17 @@ export type MRT_EditCellDatePickerProps<
   table: MRT_TableInstance<TData>;
   /** Whether to show the field label. Defaults to false. */
   showLabel?: boolean;
+  /** Storage format, overriding the table/column `dateSerialization`. Defaults to 'YYYY-MM-DD'. */
+  valueFormat?: MRT_DateValueFormat;
 };
 
-/**
- * Type alias for DatePicker value
- * A Dayjs object or null when no date is selected
- */
-type DatePickerDate = Dayjs | null;
-
 /**
  * @file MRT_EditCellDatePicker.tsx
  * @description A DatePicker component for Material React Table cell editing.
  *
  * This component integrates MUI X Date Pickers with Material React Table
  * to provide date selection functionality within editable table cells.
+ * Values are stored and read through the table/column `dateSerialization`.
  *
  * @example
  * ```jsx
@@ -51,6 +45,9 @@ type DatePickerDate = Dayjs | null;
  * />
  * ```
  *
+ * The input format follows the adapter locale (MM/DD/YYYY by default, DD.MM.YYYY for 'de'),
+ * and an app-level LocalizationProvider is reused when present.
+ *
  * @since 1.0.0
  */
 export const MRT_EditCellDatePicker = <TData extends MRT_RowData>(
@@ -58,61 +55,35 @@ export const MRT_EditCellDatePicker = <TData extends MRT_RowData>(
     cell,
     showLabel,
     table,
+    valueFormat,
     ...DatePickerProps
   }: MRT_EditCellDatePickerProps<TData>) => {
-  const {column, row} = cell;
-  const {columnDef} = column;
-
-  const defaultValue = cell.getValue<string>() || null;
-
-  const [value, setValue] = useState<Dayjs | null>(
-    defaultValue === null
-      ? dayjs(String(row._valuesCache[columnDef.id]))
-      : dayjs(defaultValue)
-  );
-
-  const label = !showLabel
-    ? undefined
-    : DatePickerProps?.label ?? columnDef.header;
-
-  const handleDateChange = (newValue: DatePickerDate) => {
-    updateEditingRow(table, cell, newValue);
-    if (dayjs.isDayjs(newValue)) setValue(newValue);
-  };
-  const isCellEdit = table.options.editDisplayMode === 'cell';
-  const onAccept = (
-    value: DatePickerDate,
-    context: PickerChangeHandlerContext<DateValidationError>
-  ) => {
-    handleDateChange(value);
-    if (isCellEdit) {
-      table.setEditingCell(null);
-    }
-    DatePickerProps?.onAccept?.(value, context);
-  };
-
-  const textFieldProps = getDateJsTextFieldProps({
+  const {value, label, timezone, disabled, handleChange, onAccept, textField} = usePickerCell({
     cell,
     table,
-    textFieldProps: DatePickerProps?.slotProps?.textField
+    showLabel,
+    pickerProps: DatePickerProps,
+    valueFormat,
+    defaultFormat: DATE_VALUE_FORMAT,
   });
 
   return (
     <XDateLocalizationProvider>
       <DatePicker
-        format="MM/DD/YYYY"
         sx={{width: '100%'}}
         minDate={dayjs('01/01/1700')} // allows for before 1900
+        disabled={disabled}
         {...DatePickerProps}
         slotProps={{
           ...DatePickerProps?.slotProps,
-          textField: textFieldProps,
+          textField,
         }}
+        {...(timezone ? {timezone} : {})}
         value={value}
-        onChange={handleDateChange}
+        onChange={handleChange}
         onAccept={onAccept}
         label={label}
       />
     </XDateLocalizationProvider>
   );
-};
\ No newline at end of file
+};
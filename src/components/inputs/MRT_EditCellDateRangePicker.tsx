@@ -0,0 +1,256 @@
+// src/components/inputs/MRT_EditCellDateRangePicker.tsx
+import {DatePicker} from '@mui/x-date-pickers/DatePicker';
+import {DateTimePicker, type DateTimePickerProps} from '@mui/x-date-pickers/DateTimePicker';
+import Box, {type BoxProps} from '@mui/material/Box';
+import type {TextFieldProps} from '@mui/material/TextField';
+import dayjs, {type Dayjs} from 'dayjs';
+import type {
+  MRT_Cell,
+  MRT_RowData,
+  MRT_TableInstance,
+} from 'material-react-table';
+import {type FocusEvent, type KeyboardEvent, useRef, useState} from 'react';
+import {XDateLocalizationProvider, isSameValue, useCellValidation, useCellValueSync, isFieldEnabled} from '../../state';
+import {
+  DATE_TIME_VALUE_FORMAT,
+  DATE_VALUE_FORMAT,
+  getDateJsTextFieldProps,
+  getDateSerializer,
+  updateEditingRow
+} from '../../utils';
+import type {MRT_DateValueFormat} from '../../dateSerialization';
+import {PendingHelperText} from './usePickerCell';
+import {useCellKeyboardNavigation} from './useCellKeyboardNavigation';
+
+/**
+ * Props shared by the start and end pickers
+ */
+type RangePickerProps = Omit<DateTimePickerProps, 'onChange' | 'value' | 'defaultValue'>;
+
+export type MRT_EditCellDateRangePickerProps<
+  TData extends Record<string | number, unknown>
+> = Omit<BoxProps, 'children'> & {
+  /** The cell to be edited (holds the start, or the [start, end] tuple). */
+  cell: MRT_Cell<TData>;
+  /** The table instance. */
+  table: MRT_TableInstance<TData>;
+  /** Column holding the end value. When omitted, the cell stores a [start, end] tuple. */
+  endColumnId?: string;
+  /** Pick dates only, or dates with times (e.g. shift windows). Defaults to 'date'. */
+  pickerType?: 'date' | 'dateTime';
+  /** Whether to show the field labels. Defaults to false. */
+  showLabel?: boolean;
+  /** Label of the start picker. Defaults to the column header. */
+  startLabel?: string;
+  /** Label of the end picker. Defaults to the end column header, or "End". */
+  endLabel?: string;
+  /** Storage format, overriding the table/column `dateSerialization`. Defaults to the date or date-time storage format. */
+  valueFormat?: MRT_DateValueFormat;
+  /** Props passed to the start picker. */
+  startPickerProps?: RangePickerProps;
+  /** Props passed to the end picker. */
+  endPickerProps?: RangePickerProps;
+};
+
+/**
+ * @file MRT_EditCellDateRangePicker.tsx
+ * @description A start/end picker pair for Material React Table cell editing.
+ *
+ * Writes the range either into two columns (this cell's column and `endColumnId`)
+ * or into this cell as a `[start, end]` tuple. The end picker can't go before the start.
+ * Follows the same label and cell-mode behavior as MRT_EditCellDatePicker,
+ * leaving cell editing mode once the end value is accepted.
+ * In cell editing mode, Tab moves from the start to the end picker (and Shift+Tab back) before leaving the cell,
+ * Enter (with Shift to go up) moves to the next row and Escape restores both values.
+ *
+ * @example
+ * ```jsx
+ * // Two columns: shiftStart / shiftEnd
+ * <MRT_EditCellDateRangePicker cell={cell} table={table} endColumnId="shiftEnd" pickerType="dateTime" showLabel />
+ *
+ * // One tuple-valued column: period = ['2024-01-01', '2024-01-31']
+ * <MRT_EditCellDateRangePicker cell={cell} table={table} showLabel />
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_EditCellDateRangePicker = <TData extends MRT_RowData>(
+  {
+    cell,
+    table,
+    endColumnId,
+    pickerType = 'date',
+    showLabel,
+    startLabel,
+    endLabel,
+    valueFormat,
+    startPickerProps,
+    endPickerProps,
+    ...boxProps
+  }: MRT_EditCellDateRangePickerProps<TData>) => {
+  const {column, row} = cell;
+  const endCell = endColumnId
+    ? row.getAllCells().find((c) => c.column.id === endColumnId) ?? cell
+    : cell;
+  const isTuple = !endColumnId;
+
+  const defaultFormat = pickerType === 'dateTime' ? DATE_TIME_VALUE_FORMAT : DATE_VALUE_FORMAT;
+  const startSerializer = getDateSerializer(table, column, {format: valueFormat, defaultFormat});
+  const endSerializer = isTuple
+    ? startSerializer
+    : getDateSerializer(table, endCell.column, {format: valueFormat, defaultFormat});
+  const toStored = (value: Dayjs | null, serializer: typeof startSerializer) =>
+    value?.isValid() ? serializer.serialize(value) : null;
+
+  /**
+   * Reads the [start, end] pair from the row
+   */
+  const readRange = (): [Dayjs | null, Dayjs | null] => {
+    if (isTuple) {
+      const tuple = cell.getValue<unknown[] | null>();
+      return [startSerializer.parse(tuple?.[0]), startSerializer.parse(tuple?.[1])];
+    }
+    return [startSerializer.parse(cell.getValue()), endSerializer.parse(endCell.getValue())];
+  };
+
+  const [range, setRange] = useState(readRange);
+  const [start, end] = range;
+
+  const startValidation = useCellValidation({cell, table});
+  const endValidation = useCellValidation({cell: endCell, table});
+  useCellValueSync({cell, table}, () => setRange(readRange()));
+  useCellValueSync({cell: endCell, table}, () => setRange(readRange()));
+
+  const Picker = (pickerType === 'dateTime' ? DateTimePicker : DatePicker) as typeof DateTimePicker;
+
+  const handleChange = (index: 0 | 1, newValue: Dayjs | null) => {
+    if (newValue !== null && !dayjs.isDayjs(newValue)) return;
+    const next: [Dayjs | null, Dayjs | null] = index === 0 ? [newValue, end] : [start, newValue];
+    setRange(next);
+    if (isTuple) {
+      updateEditingRow(table, cell, next.map((value) => toStored(value, startSerializer)));
+    } else if (index === 0) {
+      updateEditingRow(table, cell, toStored(newValue, startSerializer));
+    } else {
+      updateEditingRow(table, endCell, toStored(newValue, endSerializer));
+    }
+  };
+
+  // Leaving forward goes on from the end column, leaving backward from the start column
+  const startNavigation = useCellKeyboardNavigation({cell, table});
+  const endNavigation = useCellKeyboardNavigation({cell: endCell, table});
+  const {isCellEdit} = startNavigation;
+  const endOriginal = useRef(endCell.getValue());
+
+  /**
+   * Puts back the end column's value from when editing started (the start one is restored by its navigation)
+   */
+  const restoreEnd = () => {
+    if (!isCellEdit || isSameValue(endCell.getValue(), endOriginal.current)) return;
+    updateEditingRow(table, endCell, endOriginal.current);
+  };
+
+  const handleStartKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.key === 'Tab' && !event.shiftKey) return; // on to the end picker
+    if (event.key === 'Escape' && !isTuple) restoreEnd();
+    startNavigation.handleNavigationKeyDown(event);
+  };
+
+  const handleEndKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.key === 'Tab' && event.shiftKey) return; // back to the start picker
+    if (event.key === 'Escape') {
+      if (!isTuple) restoreEnd();
+      startNavigation.handleNavigationKeyDown(event);
+      return;
+    }
+    endNavigation.handleNavigationKeyDown(event);
+  };
+
+  /**
+   * Builds the text field slot props of one picker, wiring in its validation and navigation keys
+   */
+  const getTextField = (
+    pickerCell: MRT_Cell<TData>,
+    validation: ReturnType<typeof useCellValidation>,
+    onNavigationKeyDown: (event: KeyboardEvent<HTMLElement>) => void,
+    pickerProps?: RangePickerProps
+  ) => {
+    const textFieldProps = getDateJsTextFieldProps({
+      cell: pickerCell,
+      table,
+      textFieldProps: pickerProps?.slotProps?.textField as TextFieldProps
+    });
+    return {
+      ...textFieldProps,
+      ...(validation.error ? {error: true, helperText: validation.error} : {}),
+      ...(validation.pending ? {helperText: <PendingHelperText/>} : {}),
+      onBlur: (event: FocusEvent<HTMLInputElement>) => {
+        (textFieldProps.onBlur as ((e: FocusEvent<HTMLInputElement>) => void) | undefined)?.(event);
+        validation.validate();
+      },
+      onKeyDown: (event: KeyboardEvent<HTMLElement>) => {
+        (textFieldProps.onKeyDown as ((e: KeyboardEvent<HTMLElement>) => void) | undefined)?.(event);
+        onNavigationKeyDown(event);
+      },
+    };
+  };
+
+  const labels = showLabel
+    ? [
+      startLabel ?? startPickerProps?.label ?? column.columnDef.header,
+      endLabel ?? endPickerProps?.label ?? (isTuple ? 'End' : endCell.column.columnDef.header),
+    ]
+    : [undefined, undefined];
+
+  return (
+    <XDateLocalizationProvider>
+      <Box
+        {...boxProps}
+        sx={{display: 'flex', gap: 1, width: '100%', ...boxProps.sx as object}}
+      >
+        <Picker
+          sx={{flex: 1}}
+          minDate={dayjs('01/01/1700')} // allows for before 1900
+          maxDate={end ?? undefined}
+          {...(pickerType === 'dateTime' && end ? {maxDateTime: end} : {})}
+          {...(startSerializer.timezone ? {timezone: startSerializer.timezone} : {})}
+          disabled={!isFieldEnabled(table, row, column)}
+          {...startPickerProps}
+          slotProps={{
+            ...startPickerProps?.slotProps,
+            textField: {autoFocus: isCellEdit, ...getTextField(cell, startValidation, handleStartKeyDown, startPickerProps)},
+          }}
+          value={start}
+          onChange={(newValue) => handleChange(0, newValue)}
+          onAccept={(newValue, context) => {
+            handleChange(0, newValue);
+            startPickerProps?.onAccept?.(newValue, context);
+          }}
+          label={labels[0]}
+        />
+        <Picker
+          sx={{flex: 1}}
+          minDate={start ?? dayjs('01/01/1700')}
+          {...(pickerType === 'dateTime' && start ? {minDateTime: start} : {})}
+          {...(endSerializer.timezone ? {timezone: endSerializer.timezone} : {})}
+          disabled={!isFieldEnabled(table, row, endCell.column)}
+          {...endPickerProps}
+          slotProps={{
+            ...endPickerProps?.slotProps,
+            textField: getTextField(endCell, endValidation, handleEndKeyDown, endPickerProps),
+          }}
+          value={end}
+          onChange={(newValue) => handleChange(1, newValue)}
+          onAccept={(newValue, context) => {
+            handleChange(1, newValue);
+            if (isCellEdit) {
+              table.setEditingCell(null);
+            }
+            endPickerProps?.onAccept?.(newValue, context);
+          }}
+          label={labels[1]}
+        />
+      </Box>
+    </XDateLocalizationProvider>
+  );
+};
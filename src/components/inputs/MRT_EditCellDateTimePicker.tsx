@@ -0,0 +1,88 @@
+// src/components/inputs/MRT_EditCellDateTimePicker.tsx
+import {
+  DateTimePicker,
+  type DateTimePickerProps,
+} from '@mui/x-date-pickers/DateTimePicker';
+import dayjs from 'dayjs';
+import type {
+  MRT_Cell,
+  MRT_RowData,
+  MRT_TableInstance,
+} from 'material-react-table';
+import {XDateLocalizationProvider} from '../../state';
+import {DATE_TIME_VALUE_FORMAT} from '../../utils';
+import type {MRT_DateValueFormat} from '../../dateSerialization';
+import {usePickerCell} from './usePickerCell';
+
+export type MRT_EditCellDateTimePickerProps<
+  TData extends Record<string | number, unknown>
+> = Omit<DateTimePickerProps, 'onChange' | 'value' | 'defaultValue'> & {
+  /** The cell to be edited. */
+  cell: MRT_Cell<TData>;
+  /** The table instance. */
+  table: MRT_TableInstance<TData>;
+  /** Whether to show the field label. Defaults to false. */
+  showLabel?: boolean;
+  /** Storage format, overriding the table/column `dateSerialization`. Defaults to 'YYYY-MM-DDTHH:mm:ss'. */
+  valueFormat?: MRT_DateValueFormat;
+};
+
+/**
+ * @file MRT_EditCellDateTimePicker.tsx
+ * @description A DateTimePicker component for Material React Table cell editing.
+ *
+ * Same as MRT_EditCellDatePicker, but keeps the time component of the value
+ * (e.g. appointment times) instead of cutting it down to the date.
+ *
+ * @example
+ * ```jsx
+ * <MRT_EditCellDateTimePicker
+ *   cell={cell}
+ *   table={table}
+ *   showLabel
+ *   format="MM/DD/YYYY hh:mm A"
+ * />
+ * ```
+ *
+ * The input format follows the adapter locale (MM/DD/YYYY by default, DD.MM.YYYY for 'de'),
+ * and an app-level LocalizationProvider is reused when present.
+ *
+ * @since 1.2.0
+ */
+export const MRT_EditCellDateTimePicker = <TData extends MRT_RowData>(
+  {
+    cell,
+    showLabel,
+    table,
+    valueFormat,
+    ...DateTimePickerProps
+  }: MRT_EditCellDateTimePickerProps<TData>) => {
+  const {value, label, timezone, disabled, handleChange, onAccept, textField} = usePickerCell({
+    cell,
+    table,
+    showLabel,
+    pickerProps: DateTimePickerProps,
+    valueFormat,
+    defaultFormat: DATE_TIME_VALUE_FORMAT,
+  });
+
+  return (
+    <XDateLocalizationProvider>
+      <DateTimePicker
+        sx={{width: '100%'}}
+        minDate={dayjs('01/01/1700')} // allows for before 1900
+        disabled={disabled}
+        {...DateTimePickerProps}
+        slotProps={{
+          ...DateTimePickerProps?.slotProps,
+          textField,
+        }}
+        {...(timezone ? {timezone} : {})}
+        value={value}
+        onChange={handleChange}
+        onAccept={onAccept}
+        label={label}
+      />
+    </XDateLocalizationProvider>
+  );
+};
@@ -0,0 +1,253 @@
+/**
+ * @file MRT_EditCellNumberField.tsx
+ * @description A numeric input component for Material React Table cell editing.
+ *
+ * This component extends MUI's TextField to edit numbers with locale-aware formatting
+ * (via Intl.NumberFormat), currency and percent modes, bounds and arrow-key increments.
+ * Values are written to the row as real numbers (or null), never as strings.
+ */
+
+import {
+  useMemo,
+  useState,
+  type ChangeEvent,
+  type FocusEvent,
+  type KeyboardEvent,
+  type RefObject
+} from "react";
+import TextField from '@mui/material/TextField';
+import {type TextFieldProps} from '@mui/material/TextField';
+import {
+  type MRT_Cell,
+  type MRT_RowData,
+  type MRT_TableInstance,
+} from 'material-react-table';
+import {getTextFieldProps, updateEditingRow} from '../../utils';
+import {isFieldEnabled, useCellValidation, useCellValueSync} from '../../state';
+import {PendingAdornment} from './PendingAdornment';
+import {useCellKeyboardNavigation} from './useCellKeyboardNavigation';
+import {getSeparators, normalizeNumber, parseNumberText, toNumber} from './numberText';
+
+/**
+ * Props for the MRT_EditCellNumberField component.
+ */
+export type MRT_EditCellNumberFieldProps<TData extends MRT_RowData> =
+  Omit<TextFieldProps<'standard'>, 'select' | 'multiline' | 'children' | 'type' | 'value' | 'defaultValue'> & {
+  /** The cell to be edited. */
+  cell: MRT_Cell<TData>;
+  /** The table instance. */
+  table: MRT_TableInstance<TData>;
+  /** Smallest allowed value; lower input is clamped on blur. */
+  min?: number;
+  /** Largest allowed value; higher input is clamped on blur. */
+  max?: number;
+  /** Arrow key increment (Shift multiplies by 10). Defaults to 1. */
+  step?: number;
+  /** Fixed number of decimals (of the displayed number, so percent points in percent mode). */
+  scale?: number;
+  /** BCP 47 locale used for separators and symbols. Defaults to the browser locale. */
+  locale?: string;
+  /** Display style: plain number, currency amount or percent (stored as a fraction, 0.25 = 25%). */
+  format?: 'decimal' | 'currency' | 'percent';
+  /** ISO 4217 currency code for the currency format. Defaults to 'USD'. */
+  currency?: string;
+  /** Whether to show thousands separators. Defaults to true. */
+  useGrouping?: boolean;
+};
+
+/**
+ * A numeric input component for editing number values in Material-React-Table cells.
+ *
+ * Features:
+ * - Shows the value formatted for the locale (thousands separators, currency symbol, percent sign)
+ *   and switches to a plain editable number while focused
+ * - Only accepts digits, the locale's separators and a leading minus sign
+ * - Clamps to min/max and rounds to the fixed decimal scale on blur
+ * - ArrowUp/ArrowDown increment by `step` (Shift for 10x); like typed input, the value is committed on blur
+ * - In cell editing mode, Tab/Enter (with Shift to go back) move to the next editable cell and Escape cancels
+ * - Writes real numbers (or null when cleared) through updateEditingRow; malformed input such as "1-2"
+ *   keeps the previous value
+ * - Shows the column's `validation` errors as helper text
+ *
+ * @example
+ * ```jsx
+ * <MRT_EditCellNumberField
+ *   cell={cell}
+ *   table={table}
+ *   format="currency"
+ *   currency="EUR"
+ *   locale="de-DE"
+ *   min={0}
+ *   scale={2}
+ * />
+ * ```
+ */
+export const MRT_EditCellNumberField = <TData extends MRT_RowData>(
+  {
+    cell,
+    table,
+    min,
+    max,
+    step = 1,
+    scale,
+    locale,
+    format = 'decimal',
+    currency = 'USD',
+    useGrouping = true,
+    ...rest
+  }: MRT_EditCellNumberFieldProps<TData>) => {
+  const {
+    getState,
+    options: {createDisplayMode, editDisplayMode},
+    refs: {editInputRefs},
+    setEditingCell,
+  } = table;
+  const {column, row} = cell;
+  const {columnDef} = column;
+  const {creatingRow} = getState();
+
+  const isCreating = creatingRow?.id === row.id;
+
+  const [value, setValue] = useState(() => toNumber(cell.getValue()));
+  const [text, setText] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const {error, pending, validate} = useCellValidation({cell, table});
+  const {handleNavigationKeyDown, isCancelled} = useCellKeyboardNavigation({cell, table});
+
+  // Percent values are stored as fractions but edited as percent points
+  const factor = format === 'percent' ? 100 : 1;
+
+  const {displayFormatter, editFormatter, separators} = useMemo(() => ({
+    displayFormatter: new Intl.NumberFormat(locale, {
+      style: format,
+      ...(format === 'currency' ? {currency} : {}),
+      useGrouping,
+      ...(scale !== undefined ? {minimumFractionDigits: scale, maximumFractionDigits: scale} : {}),
+    }),
+    editFormatter: new Intl.NumberFormat(locale, {useGrouping: false, maximumFractionDigits: scale ?? 10}),
+    separators: getSeparators(locale),
+  }), [locale, format, currency, useGrouping, scale]);
+
+  const toEditText = (number: number | null) => number === null ? '' : editFormatter.format(number * factor);
+
+  const parseText = (input: string) => parseNumberText(input, separators, factor);
+  const normalize = (number: number | null) => normalizeNumber(number, {min, max, scale, factor});
+
+  useCellValueSync({cell, table}, (newValue) => {
+    const number = toNumber(newValue);
+    setValue(number);
+    if (isFocused) setText(toEditText(number));
+  });
+
+  const textFieldProps: TextFieldProps = {...getTextFieldProps({table, cell}), ...rest};
+
+  const commitValue = (number: number | null) => {
+    setValue(number);
+    updateEditingRow(table, cell, number);
+  };
+
+  const handleFocus = (event: FocusEvent<HTMLInputElement>) => {
+    textFieldProps.onFocus?.(event);
+    setText(toEditText(value));
+    setIsFocused(true);
+  };
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    textFieldProps.onChange?.(event);
+    const allowed = new RegExp(`[^0-9\\-${(separators.group + separators.decimal).replace(/[\\\]^-]/g, '\\$&')}\\s]`, 'g');
+    const newText = event.target.value.replace(allowed, '');
+    setText(newText);
+    const number = parseText(newText);
+    if (number !== undefined) validate(number);
+  };
+
+  const handleBlur = (event: FocusEvent<HTMLInputElement>) => {
+    textFieldProps.onBlur?.(event);
+    setIsFocused(false);
+    if (isCancelled()) return;
+    const number = parseText(text);
+    // Malformed input is dropped in favour of the previous value
+    const next = number === undefined ? value : normalize(number);
+    // Only write (and save, in cell mode) when the stored number actually changes
+    if (next !== toNumber(cell.getValue())) commitValue(next);
+    else setValue(next);
+    setEditingCell(null);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    textFieldProps.onKeyDown?.(event);
+    if (handleNavigationKeyDown(event)) return;
+    if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      const delta = (event.key === 'ArrowUp' ? step : -step) * (event.shiftKey ? 10 : 1);
+      const current = parseText(text) ?? 0;
+      const next = normalize(current + delta / factor);
+      // Only the input changes here; the blur commits it, so cell editing does not save on every press
+      setText(toEditText(next));
+      setValue(next);
+      validate(next);
+    } else if (event.key === 'Enter' && event.shiftKey && editInputRefs.current) {
+      editInputRefs.current[column.id]?.blur();
+    }
+  };
+
+  return (
+    <TextField
+      disabled={!isFieldEnabled(table, row, column)}
+      fullWidth
+      inputRef={(inputRef: RefObject<HTMLInputElement>) => {
+        if (inputRef && editInputRefs.current) {
+          editInputRefs.current[column.id] = inputRef.current;
+          if (textFieldProps.inputRef) {
+            textFieldProps.inputRef = inputRef;
+          }
+        }
+      }}
+      label={
+        ['custom', 'modal'].includes(
+          (isCreating ? createDisplayMode : editDisplayMode) as string
+        )
+          ? columnDef.header
+          : undefined
+      }
+      margin="none"
+      name={column.id}
+      placeholder={
+        !['custom', 'modal'].includes(
+          (isCreating ? createDisplayMode : editDisplayMode) as string
+        )
+          ? columnDef.header
+          : undefined
+      }
+      value={isFocused ? text : value === null ? '' : displayFormatter.format(value)}
+      variant="standard"
+      autoComplete="off"
+      {...textFieldProps}
+      error={!!error || textFieldProps.error}
+      helperText={error ?? textFieldProps.helperText}
+      slotProps={{
+        ...textFieldProps.slotProps,
+        input: {
+          ...textFieldProps.slotProps?.input,
+          ...(pending ? {endAdornment: <PendingAdornment/>} : {}),
+        },
+        htmlInput: {
+          inputMode: 'decimal',
+          role: 'spinbutton',
+          'aria-valuemin': min,
+          'aria-valuemax': max,
+          'aria-valuenow': value ?? undefined,
+          ...textFieldProps.slotProps?.htmlInput,
+        },
+      }}
+      onBlur={handleBlur}
+      onChange={handleChange}
+      onFocus={handleFocus}
+      onClick={(e) => {
+        e.stopPropagation();
+        textFieldProps?.onClick?.(e);
+      }}
+      onKeyDown={handleKeyDown}
+    />
+  );
+};
@@ -0,0 +1,79 @@
+// src/components/inputs/MRT_EditCellSwitch.tsx
+import Switch, {type SwitchProps} from "@mui/material/Switch";
+import FormControl from "@mui/material/FormControl";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import FormHelperText from "@mui/material/FormHelperText";
+import type {MRT_Cell, MRT_RowData, MRT_TableInstance} from "material-react-table";
+import {useBooleanCell} from "./useBooleanCell";
+import {PendingAdornment} from "./PendingAdornment";
+
+/**
+ * Props for the MRT_EditCellSwitch component.
+ */
+export type MRT_EditCellSwitchProps<TData extends MRT_RowData> =
+  Omit<SwitchProps, 'checked' | 'defaultChecked' | 'onChange'> & {
+  /** The cell to be edited. */
+  cell: MRT_Cell<TData>;
+  /** The table instance. */
+  table: MRT_TableInstance<TData>;
+  /** Allow a third "not set" state stored as null, shown as a dimmed switch. Defaults to false. */
+  allowNull?: boolean;
+  /** Whether to show the column header next to the switch. Defaults to true in modal/custom display modes. */
+  showLabel?: boolean;
+};
+
+/**
+ * @file MRT_EditCellSwitch.tsx
+ * @description A Switch component for Material React Table cell editing.
+ *
+ * Same behavior as MRT_EditCellCheckbox (real booleans, optional null state,
+ * Space to toggle and immediate save in cell mode), shown as an on/off switch.
+ *
+ * @example
+ * ```jsx
+ * {
+ *   accessorKey: 'archived',
+ *   header: 'Archived',
+ *   Edit: ({cell, table}) => <MRT_EditCellSwitch cell={cell} table={table} allowNull/>,
+ * }
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_EditCellSwitch = <TData extends MRT_RowData>(
+  {cell, table, allowNull, showLabel, ...switchProps}: MRT_EditCellSwitchProps<TData>
+) => {
+  const {value, toggle, error, pending, isCellEdit, disabled, label} = useBooleanCell({cell, table, allowNull});
+  const shownLabel = showLabel === false ? undefined : showLabel ? cell.column.columnDef.header : label;
+
+  const control = (
+    <Switch
+      autoFocus={isCellEdit}
+      disabled={disabled}
+      name={cell.column.id}
+      {...switchProps}
+      checked={value === true}
+      onChange={toggle}
+      onClick={(e) => {
+        e.stopPropagation();
+        switchProps.onClick?.(e);
+      }}
+      slotProps={{
+        ...switchProps.slotProps,
+        input: {
+          ...(value === null ? {'aria-checked': 'mixed'} : {}),
+          ...switchProps.slotProps?.input,
+        },
+      }}
+      sx={{...(value === null ? {opacity: 0.5} : {}), ...switchProps.sx as object}}
+    />
+  );
+
+  return (
+    <FormControl error={!!error}>
+      {shownLabel ? <FormControlLabel control={control} label={shownLabel} disabled={disabled}/> : control}
+      {pending && <PendingAdornment/>}
+      {error && <FormHelperText>{error}</FormHelperText>}
+    </FormControl>
+  );
+};
@@ -21,6 +21,11 @@ import {
   parseFromValuesOrFunc,
 } from 'material-react-table/src/utils/utils';
 import {getTextFieldProps} from "../../utils";
+import {isFieldEnabled, setEditingRowValue, useCellValidation, useCellValueSync} from "../../state";
+import {PendingAdornment} from "./PendingAdornment";
+import {useLengthLimit} from "./useLengthLimit";
+import {useCellKeyboardNavigation} from "./useCellKeyboardNavigation";
+import type {MRT_LengthLimit} from "../../validation";
 
 /**
  * Props for the MRT_EditCellTextField component
@@ -36,6 +41,8 @@ export interface MRT_EditCellTextFieldProps<TData extends MRT_RowData>
   cell: MRT_Cell<TData>;
   /** The table instance */
   table: MRT_TableInstance<TData>;
+  /** Length limit with a live counter (a number means characters). Defaults to the column's `validation.maxLength`. */
+  maxLength?: number | MRT_LengthLimit;
 }
 
 /**
@@ -48,7 +55,10 @@ export interface MRT_EditCellTextFieldProps<TData extends MRT_RowData>
  * - Handles both cell and row editing modes
  * - Supports select dropdowns via columnDef.editVariant = 'select'
  * - Automatically saves input values to the row cache
+ * - Runs the column's `validation` rules on change and blur, showing the error as helper text
+ * - Shows a "120 / 500" counter for length-limited columns, warning near the limit
  * - Properly handles focus, blur, and keyboard events
+ * - In cell editing mode, Tab/Enter (with Shift to go back) move to the next editable cell and Escape cancels
  *
  * @template TData - The data type for the table row
  *
@@ -73,6 +83,7 @@ export interface MRT_EditCellTextFieldProps<TData extends MRT_RowData>
 export const MRT_EditCellTextField = <TData extends MRT_RowData>({
   cell,
   table,
+  maxLength,
   ...rest
 }: MRT_EditCellTextFieldProps<TData>) => {
   const {
@@ -93,6 +104,10 @@ export const MRT_EditCellTextField = <TData extends MRT_RowData>({
   const isEditing = editingRow?.id === row.id;
 
   const [value, setValue] = useState(() => cell.getValue<string>());
+  const {error, pending, validate} = useCellValidation({cell, table});
+  useCellValueSync({cell, table}, (newValue) => setValue(newValue as string));
+  const {limitInput, withCounter} = useLengthLimit({column, value, maxLength});
+  const {handleNavigationKeyDown, isCancelled} = useCellKeyboardNavigation({cell, table});
 
   const textFieldProps: TextFieldProps = {...getTextFieldProps({table, cell}), ...rest};
 
@@ -104,8 +119,8 @@ export const MRT_EditCellTextField = <TData extends MRT_RowData>({
    * Updates the creating/editing row state in the table
    */
   const saveInputValueToRowCache = (newValue: string) => {
-    //@ts-expect-error row._valuesCache is keyed by column.id
-    row._valuesCache[column.id] = newValue;
+    setEditingRowValue(table, row, column.id, newValue);
+    validate();
     if (isCreating) {
       setCreatingRow(row);
     } else if (isEditing) {
@@ -115,13 +130,17 @@ export const MRT_EditCellTextField = <TData extends MRT_RowData>({
 
   /**
    * Handles input change events
-   * Updates the local state and saves to row cache for select inputs
+   * Updates the local state and saves to row cache for select inputs,
+   * validating the new value either way
    */
   const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
     textFieldProps.onChange?.(event);
-    setValue(event.target.value);
+    const newValue = isSelectEdit ? event.target.value : limitInput(event.target.value);
+    setValue(newValue);
     if (isSelectEdit) {
-      saveInputValueToRowCache(event.target.value);
+      saveInputValueToRowCache(newValue);
+    } else {
+      validate(newValue);
     }
   };
 
@@ -131,16 +150,18 @@ export const MRT_EditCellTextField = <TData extends MRT_RowData>({
    */
   const handleBlur = (event: FocusEvent<HTMLInputElement>) => {
     textFieldProps.onBlur?.(event);
+    if (isCancelled()) return;
     saveInputValueToRowCache(value);
     setEditingCell(null);
   };
 
   /**
    * Handles keyboard events
-   * Implements Shift+Enter to exit editing mode
+   * Implements the cell mode navigation keys, and Shift+Enter to exit editing mode otherwise
    */
   const handleEnterKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
     textFieldProps.onKeyDown?.(event);
+    if (handleNavigationKeyDown(event)) return;
     if (event.key === 'Enter' && event.shiftKey) {
       editInputRefs.current?.[column.id]?.blur();
     }
@@ -153,7 +174,7 @@ export const MRT_EditCellTextField = <TData extends MRT_RowData>({
 
   return (
     <TextField
-      disabled={parseFromValuesOrFunc(columnDef.enableEditing, row) === false}
+      disabled={!isFieldEnabled(table, row, column)}
       fullWidth
       inputRef={(inputRef: RefObject<HTMLInputElement>) => {
         if (inputRef && editInputRefs.current) {
@@ -183,12 +204,15 @@ export const MRT_EditCellTextField = <TData extends MRT_RowData>({
       value={value ?? ''}
       variant="standard"
       {...textFieldProps}
+      error={!!error || textFieldProps.error}
+      helperText={withCounter(error ?? textFieldProps.helperText)}
       slotProps={{
         input: {
           ...(textFieldProps.variant !== 'outlined'
             ? { disableUnderline: editDisplayMode === 'table' }
             : {}),
           ...textFieldProps?.slotProps?.input ?? {},
+          ...(pending ? {endAdornment: <PendingAdornment/>} : {}),
         },
         select: {
           MenuProps: { disableScrollLock: true },
@@ -5,24 +5,36 @@
  * This component extends MUI's TextField to provide multiline text editing capabilities
  * within Material React Table cells. It handles state management, keyboard navigation,
  * and integrates with Material React Table's row editing workflow.
+ * In Markdown mode it adds a formatting toolbar, shortcuts and a sanitized preview.
  */
 
 import {
+  useRef,
   useState,
   type ChangeEvent,
   type FocusEvent,
   type KeyboardEvent,
-  type  RefObject
 } from "react";
 import TextField from '@mui/material/TextField';
 import {type TextFieldProps} from '@mui/material/TextField';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import Tooltip from '@mui/material/Tooltip';
 import {
   type MRT_Cell,
   type MRT_RowData,
   type MRT_TableInstance,
 } from 'material-react-table';
 import {getDateJsTextFieldProps, updateEditingRow} from '../../utils';
-import {parseFromValuesOrFunc} from 'material-react-table/src/utils/utils';
+import {isFieldEnabled, setEditingRowValue, useCellValidation, useCellValueSync} from '../../state';
+import {PendingAdornment} from './PendingAdornment';
+import {MRT_Markdown} from './MRT_Markdown';
+import {useLengthLimit} from './useLengthLimit';
+import {useCellKeyboardNavigation} from './useCellKeyboardNavigation';
+import type {MRT_LengthLimit} from '../../validation';
+import {formatMarkdown, MARKDOWN_SHORTCUTS, type MRT_MarkdownFormat} from '../../markdown';
 
 /**
  * Props for the MRT_EditCellTextarea component.
@@ -33,8 +45,24 @@ export type MRT_EditCellTextareaProps<TData extends MRT_RowData> =
   cell: MRT_Cell<TData>;
   /** The table instance. */
   table: MRT_TableInstance<TData>;
+  /** Edit the value as Markdown, with a toolbar and preview. Defaults to the column's `markdown` setting. */
+  markdown?: boolean;
+  /** Length limit with a live counter (a number means characters). Defaults to the column's `validation.maxLength`. */
+  maxLength?: number | MRT_LengthLimit;
 };
 
+/**
+ * Markdown toolbar buttons
+ * @private
+ */
+const MARKDOWN_TOOLS: { format: MRT_MarkdownFormat; label: string; title: string }[] = [
+  {format: 'bold', label: 'B', title: 'Bold (Ctrl+B)'},
+  {format: 'italic', label: 'I', title: 'Italic (Ctrl+I)'},
+  {format: 'list', label: '•', title: 'List (Ctrl+L)'},
+  {format: 'link', label: 'Link', title: 'Link (Ctrl+K)'},
+  {format: 'code', label: '</>', title: 'Code (Ctrl+E)'},
+];
+
 /**
  * A multiline text input component for editing text values in Material-React-Table cells.
  *
@@ -42,8 +70,14 @@ export type MRT_EditCellTextareaProps<TData extends MRT_RowData> =
  * - Supports multiline text editing with appropriate styling
  * - Integrates with Material React Table's row/cell editing state management
  * - Handles keyboard navigation (e.g., Shift+Enter to complete editing)
+ * - In cell editing mode, Tab and Ctrl/Cmd+Enter (with Shift to go back) move to the next editable cell
+ *   and Escape cancels
  * - Preserves cursor position and selection state
  * - Automatically updates the editing row in the table state
+ * - Shows the column's `validation` errors as helper text
+ * - Shows a "120 / 500" counter for length-limited columns, warning near the limit
+ * - Markdown mode (`markdown` prop or column `markdown: true`): Edit/Preview toggle (except in cell editing mode),
+ *   bold/italic/list/link/code toolbar and Ctrl/Cmd shortcuts (B, I, L, K, E)
  *
  * @example
  * ```jsx
@@ -56,7 +90,7 @@ export type MRT_EditCellTextareaProps<TData extends MRT_RowData> =
  * ```
  */
 export const MRT_EditCellTextarea = <TData extends MRT_RowData>(
-  {cell, table, ...rest}: MRT_EditCellTextareaProps<TData>) => {
+  {cell, table, markdown, maxLength, ...rest}: MRT_EditCellTextareaProps<TData>) => {
   const {
     getState,
     options: {createDisplayMode, editDisplayMode},
@@ -73,6 +107,15 @@ export const MRT_EditCellTextarea = <TData extends MRT_RowData>(
   const isEditing = editingRow?.id === row.id;
 
   const [value, setValue] = useState(() => cell.getValue<string>());
+  const {error, pending, validate} = useCellValidation({cell, table});
+  useCellValueSync({cell, table}, (newValue) => setValue(newValue as string));
+
+  const {limitInput, withCounter} = useLengthLimit({column, value, maxLength});
+  const {isCellEdit, handleNavigationKeyDown, isCancelled} = useCellKeyboardNavigation({cell, table, multiline: true});
+
+  const isMarkdown = markdown ?? !!columnDef.markdown;
+  const [isPreview, setIsPreview] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
 
   /**
    * Merge TextField props from various sources in the correct priority order:
@@ -83,8 +126,8 @@ export const MRT_EditCellTextarea = <TData extends MRT_RowData>(
   const textFieldProps: TextFieldProps = {...getDateJsTextFieldProps({table, cell}), ...rest};
 
   const saveInputValueToRowCache = (newValue: string) => {
-    //@ts-expect-error row._valuesCache is keyed by column.id
-    row._valuesCache[column.id] = newValue;
+    setEditingRowValue(table, row, column.id, newValue);
+    validate();
     if (isCreating) {
       setCreatingRow(row);
     } else if (isEditing) {
@@ -94,33 +137,55 @@ export const MRT_EditCellTextarea = <TData extends MRT_RowData>(
 
   const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
     textFieldProps.onChange?.(event);
-    setValue(event.target.value);
-    updateEditingRow(table, cell, event.target.value);
+    const newValue = limitInput(event.target.value);
+    setValue(newValue);
+    updateEditingRow(table, cell, newValue);
   };
 
   const handleBlur = (event: FocusEvent<HTMLInputElement>) => {
     textFieldProps.onBlur?.(event);
+    if (isCancelled()) return;
     saveInputValueToRowCache(value);
     setEditingCell(null);
   };
 
+  /**
+   * Applies a Markdown format to the selection, keeping the focus in the textarea
+   */
+  const applyFormat = (format: MRT_MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const edit = formatMarkdown(value ?? '', textarea.selectionStart, textarea.selectionEnd, format);
+    const newValue = limitInput(edit.text);
+    setValue(newValue);
+    updateEditingRow(table, cell, newValue);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
   const handleEnterKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
     textFieldProps.onKeyDown?.(event);
-    if (event.key === 'Enter' && event.shiftKey && editInputRefs.current) {
-      editInputRefs.current[column.id]?.blur();
+    if (handleNavigationKeyDown(event)) return;
+    const shortcut = MARKDOWN_SHORTCUTS[event.key.toLowerCase()];
+    if (isMarkdown && shortcut && (event.ctrlKey || event.metaKey) && !event.altKey) {
+      event.preventDefault();
+      applyFormat(shortcut);
+    } else if (event.key === 'Enter' && event.shiftKey) {
+      textareaRef.current?.blur();
     }
   };
 
-  return (
+  const textField = (
     <TextField
-      disabled={parseFromValuesOrFunc(columnDef.enableEditing, row) === false}
+      disabled={!isFieldEnabled(table, row, column)}
       fullWidth
-      inputRef={(inputRef: RefObject<HTMLInputElement>) => {
-        if (inputRef && editInputRefs.current) {
-          editInputRefs.current[column.id] = inputRef.current;
-          if (textFieldProps.inputRef) {
-            textFieldProps.inputRef = inputRef;
-          }
+      inputRef={(textarea: HTMLTextAreaElement | null) => {
+        textareaRef.current = textarea;
+        if (textarea && editInputRefs.current) {
+          // MRT only focuses and blurs these, which a textarea supports like an input
+          editInputRefs.current[column.id] = textarea as HTMLElement as HTMLInputElement;
         }
       }}
       multiline={true}
@@ -145,6 +210,15 @@ export const MRT_EditCellTextarea = <TData extends MRT_RowData>(
       variant="standard"
       autoComplete="off"
       {...textFieldProps}
+      error={!!error || textFieldProps.error}
+      helperText={withCounter(error ?? textFieldProps.helperText)}
+      slotProps={{
+        ...textFieldProps.slotProps,
+        input: {
+          ...textFieldProps.slotProps?.input,
+          ...(pending ? {endAdornment: <PendingAdornment/>} : {}),
+        },
+      }}
       onBlur={handleBlur}
       onChange={handleChange}
       onClick={(e) => {
@@ -154,4 +228,44 @@ export const MRT_EditCellTextarea = <TData extends MRT_RowData>(
       onKeyDown={handleEnterKeyDown}
     />
   );
+
+  if (!isMarkdown) return textField;
+
+  return (
+    <Box sx={{width: '100%'}} onClick={(e) => e.stopPropagation()}>
+      <Box sx={{display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5}}>
+        {/* In cell mode the preview would unmount the focused textarea and end the cell edit */}
+        {!isCellEdit && (
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={isPreview ? 'preview' : 'edit'}
+            onChange={(_e, mode) => mode && setIsPreview(mode === 'preview')}
+            // Keep the textarea focused
+            onMouseDown={(e) => e.preventDefault()}
+          >
+            <ToggleButton value="edit" sx={{py: 0}}>Edit</ToggleButton>
+            <ToggleButton value="preview" sx={{py: 0}}>Preview</ToggleButton>
+          </ToggleButtonGroup>
+        )}
+        {!isPreview && MARKDOWN_TOOLS.map(({format, label, title}) => (
+          <Tooltip key={format} title={title}>
+            <Button
+              size="small"
+              sx={{minWidth: 32, py: 0, fontWeight: format === 'bold' ? 'bold' : undefined, fontStyle: format === 'italic' ? 'italic' : undefined}}
+              aria-label={title}
+              disabled={!isFieldEnabled(table, row, column)}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => applyFormat(format)}
+            >
+              {label}
+            </Button>
+          </Tooltip>
+        ))}
+      </Box>
+      {isPreview
+        ? <MRT_Markdown source={value} sx={{minHeight: 56, py: 0.5}}/>
+        : textField}
+    </Box>
+  );
 };
@@ -0,0 +1,83 @@
+// src/components/inputs/MRT_EditCellTimePicker.tsx
+import {
+  TimePicker,
+  type TimePickerProps,
+} from '@mui/x-date-pickers/TimePicker';
+import type {
+  MRT_Cell,
+  MRT_RowData,
+  MRT_TableInstance,
+} from 'material-react-table';
+import {XDateLocalizationProvider} from '../../state';
+import {TIME_VALUE_FORMAT} from '../../utils';
+import type {MRT_DateValueFormat} from '../../dateSerialization';
+import {usePickerCell} from './usePickerCell';
+
+export type MRT_EditCellTimePickerProps<
+  TData extends Record<string | number, unknown>
+> = Omit<TimePickerProps, 'onChange' | 'value' | 'defaultValue'> & {
+  /** The cell to be edited. */
+  cell: MRT_Cell<TData>;
+  /** The table instance. */
+  table: MRT_TableInstance<TData>;
+  /** Whether to show the field label. Defaults to false. */
+  showLabel?: boolean;
+  /** Storage format, overriding the table/column `dateSerialization`. Defaults to 'HH:mm:ss'. */
+  valueFormat?: MRT_DateValueFormat;
+};
+
+/**
+ * @file MRT_EditCellTimePicker.tsx
+ * @description A TimePicker component for Material React Table cell editing.
+ *
+ * Edits time-of-day values (stored as 'HH:mm:ss' by default),
+ * following the same label and cell-mode behavior as MRT_EditCellDatePicker.
+ *
+ * @example
+ * ```jsx
+ * <MRT_EditCellTimePicker
+ *   cell={cell}
+ *   table={table}
+ *   showLabel
+ *   ampm={false}
+ * />
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_EditCellTimePicker = <TData extends MRT_RowData>(
+  {
+    cell,
+    showLabel,
+    table,
+    valueFormat,
+    ...TimePickerProps
+  }: MRT_EditCellTimePickerProps<TData>) => {
+  const {value, label, timezone, disabled, handleChange, onAccept, textField} = usePickerCell({
+    cell,
+    table,
+    showLabel,
+    pickerProps: TimePickerProps,
+    valueFormat,
+    defaultFormat: TIME_VALUE_FORMAT,
+  });
+
+  return (
+    <XDateLocalizationProvider>
+      <TimePicker
+        sx={{width: '100%'}}
+        disabled={disabled}
+        {...TimePickerProps}
+        slotProps={{
+          ...TimePickerProps?.slotProps,
+          textField,
+        }}
+        {...(timezone ? {timezone} : {})}
+        value={value}
+        onChange={handleChange}
+        onAccept={onAccept}
+        label={label}
+      />
+    </XDateLocalizationProvider>
+  );
+};
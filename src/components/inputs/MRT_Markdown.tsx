@@ -0,0 +1,150 @@
+// src/components/inputs/MRT_Markdown.tsx
+import {type ReactNode} from "react";
+import Box, {type BoxProps} from "@mui/material/Box";
+import Link from "@mui/material/Link";
+import {isSafeMarkdownUrl} from "../../markdown";
+
+/**
+ * Props for the MRT_Markdown component.
+ */
+export type MRT_MarkdownProps = Omit<BoxProps, 'children'> & {
+  /** The Markdown text to render. */
+  source: string | null | undefined;
+};
+
+/**
+ * Inline syntax, in order of precedence:
+ * escape, code, image, link, bold, strikethrough, italic (no intraword underscores, as in snake_case)
+ * @private
+ */
+const INLINE_PATTERN =
+  /\\([\\`*_{}[\]()#+\-.!~>])|`([^`]+)`|!\[([^\]]*)]\(([^)\s]+)[^)]*\)|\[([^\]]+)]\(([^)\s]+)[^)]*\)|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<![\w])_([^_\s](?:[^_]*[^_\s])?)_(?![\w])/;
+
+/**
+ * Renders a link, or just its text when the target is unsafe
+ * @private
+ */
+const renderLink = (url: string, label: ReactNode, key: string) => isSafeMarkdownUrl(url)
+  ? <Link key={key} href={url} target="_blank" rel="noopener noreferrer">{label}</Link>
+  : <span key={key}>{label}</span>;
+
+/**
+ * Renders inline Markdown into React nodes
+ * @private
+ */
+const renderInline = (text: string, keyPrefix: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let rest = text;
+  let index = 0;
+  for (let match = INLINE_PATTERN.exec(rest); match; match = INLINE_PATTERN.exec(rest)) {
+    if (match.index > 0) nodes.push(rest.slice(0, match.index));
+    const key = `${keyPrefix}-${index++}`;
+    const [, escaped, code, imageAlt, imageUrl, linkText, linkUrl, bold, boldAlt, strike, italic, italicAlt] = match;
+    if (escaped !== undefined) nodes.push(escaped);
+    else if (code !== undefined) nodes.push(<code key={key}>{code}</code>);
+    // Images are never loaded, only linked
+    else if (imageUrl !== undefined) nodes.push(renderLink(imageUrl, imageAlt || imageUrl, key));
+    else if (linkUrl !== undefined) nodes.push(renderLink(linkUrl, renderInline(linkText, key), key));
+    else if (bold !== undefined || boldAlt !== undefined) nodes.push(<strong key={key}>{renderInline(bold ?? boldAlt, key)}</strong>);
+    else if (strike !== undefined) nodes.push(<del key={key}>{renderInline(strike, key)}</del>);
+    else nodes.push(<em key={key}>{renderInline(italic ?? italicAlt, key)}</em>);
+    rest = rest.slice(match.index + match[0].length);
+  }
+  if (rest) nodes.push(rest);
+  return nodes;
+};
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^(\*{3,}|-{3,}|_{3,})\s*$/;
+const FENCE = /^```/;
+
+/**
+ * Whether a line starts a block other than a paragraph
+ * @private
+ */
+const startsBlock = (line: string) =>
+  [HEADING, BULLET, NUMBERED, QUOTE, RULE, FENCE].some((pattern) => pattern.test(line));
+
+/**
+ * Renders block-level Markdown into React nodes
+ * @private
+ */
+const renderBlocks = (source: string, keyPrefix: string): ReactNode[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: ReactNode[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `${keyPrefix}-${blocks.length}`;
+
+    if (!line.trim()) {
+      i++;
+    } else if (FENCE.test(line)) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) code.push(lines[i]);
+      i++;
+      blocks.push(<pre key={key}><code>{code.join('\n')}</code></pre>);
+    } else if (HEADING.test(line)) {
+      const [, hashes, text] = HEADING.exec(line)!;
+      const Heading = `h${hashes.length}` as 'h1';
+      blocks.push(<Heading key={key}>{renderInline(text, key)}</Heading>);
+      i++;
+    } else if (RULE.test(line)) {
+      blocks.push(<hr key={key}/>);
+      i++;
+    } else if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(QUOTE.exec(lines[i])![1]);
+      blocks.push(<blockquote key={key}>{renderBlocks(quoted.join('\n'), key)}</blockquote>);
+    } else if (BULLET.test(line) || NUMBERED.test(line)) {
+      const pattern = BULLET.test(line) ? BULLET : NUMBERED;
+      const items: ReactNode[] = [];
+      for (; i < lines.length && pattern.test(lines[i]); i++) {
+        items.push(<li key={items.length}>{renderInline(pattern.exec(lines[i])![1], `${key}-${items.length}`)}</li>);
+      }
+      blocks.push(pattern === BULLET ? <ul key={key}>{items}</ul> : <ol key={key}>{items}</ol>);
+    } else {
+      const paragraph: string[] = [];
+      for (; i < lines.length && lines[i].trim() && (!paragraph.length || !startsBlock(lines[i])); i++) {
+        paragraph.push(lines[i].trim());
+      }
+      blocks.push(<p key={key}>{renderInline(paragraph.join(' '), key)}</p>);
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Renders Markdown (headings, paragraphs, lists, quotes, code, links, emphasis) as React elements.
+ *
+ * The output is sanitized by construction: no HTML is passed through, unsafe link targets
+ * (javascript:, data:, ...) are dropped and images are shown as links, so nothing is loaded
+ * from the network. Used by MRT_EditCellTextarea's preview and MRT_EditDialog's view mode.
+ *
+ * @example
+ * ```tsx
+ * Cell: ({cell}) => <MRT_Markdown source={cell.getValue<string>()}/>
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_Markdown = ({source, sx, ...boxProps}: MRT_MarkdownProps) => (
+  <Box
+    {...boxProps}
+    sx={[{
+      '& > :first-of-type': {mt: 0},
+      '& > :last-child': {mb: 0},
+      '& p, & ul, & ol, & pre, & blockquote': {my: 1},
+      '& h1, & h2, & h3, & h4, & h5, & h6': {my: 1, lineHeight: 1.3},
+      '& code': {fontFamily: 'monospace', bgcolor: 'action.hover', px: 0.5, borderRadius: 0.5},
+      '& pre': {p: 1, overflowX: 'auto', bgcolor: 'action.hover', borderRadius: 1},
+      '& pre code': {p: 0, bgcolor: 'transparent'},
+      '& blockquote': {mx: 0, pl: 1.5, borderLeft: 3, borderColor: 'divider', color: 'text.secondary'},
+    }, ...(Array.isArray(sx) ? sx : [sx])]}
+  >
+    {renderBlocks(source ?? '', 'md')}
+  </Box>
+);
@@ -0,0 +1,150 @@
+// src/components/inputs/MRT_ViewValue.tsx
+import Box from "@mui/material/Box";
+import Chip from "@mui/material/Chip";
+import Link from "@mui/material/Link";
+import type {MRT_Cell, MRT_RowData, MRT_TableInstance} from "material-react-table";
+import {MRT_BooleanIcon} from "./MRT_BooleanIcon";
+import {DATE_TIME_VALUE_FORMAT, DATE_VALUE_FORMAT, getDateSerializer, TIME_VALUE_FORMAT} from "../../utils";
+import {getLookupLabel} from "../../lookup";
+import {isEmptyValue} from "../../validation";
+import {
+  inferViewFormatType,
+  type MRT_ViewFormatContext,
+  type MRT_ViewFormatOptions,
+  type MRT_ViewFormatter,
+  type MRT_ViewFormatters,
+} from "../../viewFormat";
+
+/**
+ * Formats a number, currency amount or percent with Intl.NumberFormat
+ * @private
+ */
+const formatNumber = (style: 'decimal' | 'currency' | 'percent') =>
+  ({value, options}: MRT_ViewFormatContext<MRT_RowData>) => {
+    const number = Number(value);
+    if (!Number.isFinite(number)) return String(value);
+    return new Intl.NumberFormat(options.locale, {
+      style,
+      ...(style === 'currency' ? {currency: options.currency ?? 'USD'} : {}),
+      ...options.numberFormat,
+    }).format(number);
+  };
+
+/**
+ * Formats a stored date, date-time or time, read with the column's date serialization
+ * @private
+ */
+const formatDate = (type: 'date' | 'dateTime' | 'time') =>
+  ({value, options, column, table}: MRT_ViewFormatContext<MRT_RowData>) => {
+    const defaultFormat = type === 'date' ? DATE_VALUE_FORMAT : type === 'time' ? TIME_VALUE_FORMAT : DATE_TIME_VALUE_FORMAT;
+    const serializer = getDateSerializer(table, column, {defaultFormat});
+    const parsed = serializer.parse(value);
+    if (!parsed) return String(value);
+    if (options.dateFormat) return parsed.format(options.dateFormat);
+    return new Intl.DateTimeFormat(options.locale, {
+      dateStyle: type === 'time' ? undefined : 'medium',
+      timeStyle: type === 'date' ? undefined : 'short',
+      // Plain dates have no time of day to shift
+      timeZone: type === 'date' ? undefined : serializer.timezone,
+    }).format(parsed.toDate());
+  };
+
+/**
+ * Text of an array item shown as a chip
+ * @private
+ */
+const itemLabel = (item: unknown) => {
+  if (item !== null && typeof item === 'object') {
+    return 'label' in item ? String(item.label) : JSON.stringify(item);
+  }
+  return String(item);
+};
+
+/**
+ * The built-in view formatters, by format name.
+ * Extend or replace them through the table's `viewFormatters` option.
+ *
+ * @since 1.2.0
+ */
+export const MRT_DEFAULT_VIEW_FORMATTERS: MRT_ViewFormatters<MRT_RowData> = {
+  text: ({value}) => String(value),
+  number: formatNumber('decimal'),
+  currency: formatNumber('currency'),
+  percent: formatNumber('percent'),
+  date: formatDate('date'),
+  dateTime: formatDate('dateTime'),
+  time: formatDate('time'),
+  boolean: ({value}) => <MRT_BooleanIcon value={typeof value === 'string' ? value.toLowerCase() === 'true' : Boolean(value)}/>,
+  chips: ({value}) => (
+    <Box sx={{display: 'flex', flexWrap: 'wrap', gap: 0.5}}>
+      {(Array.isArray(value) ? value : [value]).map((item, index) => (
+        <Chip key={index} label={itemLabel(item)} size="small"/>
+      ))}
+    </Box>
+  ),
+  email: ({value}) => <Link href={`mailto:${String(value)}`}>{String(value)}</Link>,
+  url: ({value}) => /^https?:\/\//i.test(String(value))
+    ? <Link href={String(value)} target="_blank" rel="noopener noreferrer">{String(value)}</Link>
+    : String(value),
+  json: ({value}) => (
+    <Box component="pre" sx={{m: 0, fontFamily: 'monospace', fontSize: '0.8125rem', whiteSpace: 'pre-wrap'}}>
+      {JSON.stringify(value, null, 2)}
+    </Box>
+  ),
+};
+
+/**
+ * Props for the MRT_ViewValue component.
+ */
+export interface MRT_ViewValueProps<TData extends MRT_RowData> {
+  /** The cell to show */
+  cell: MRT_Cell<TData>;
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+}
+
+/**
+ * Read-only display of a cell value, formatted by its type.
+ *
+ * The format is the column's `viewFormat` (a format name, format options or a formatter),
+ * or else inferred from the value: dates, numbers, booleans, arrays as chips, emails and URLs as links.
+ * Formatters come from the table's `viewFormatters`, falling back to MRT_DEFAULT_VIEW_FORMATTERS.
+ * Empty values show an em dash, and key-valued (`lookup`) columns show their option labels.
+ *
+ * Used by MRT_EditDialog's view mode, and handy in a column's `Cell` renderer.
+ *
+ * @template TData - The data type for the table row
+ *
+ * @example
+ * ```tsx
+ * Cell: ({cell, table}) => <MRT_ViewValue cell={cell} table={table}/>
+ * ```
+ *
+ * @since 1.2.0
+ */
+export const MRT_ViewValue = <TData extends MRT_RowData>({cell, table}: MRT_ViewValueProps<TData>) => {
+  const {column, row} = cell;
+  const {viewFormat, lookup} = column.columnDef;
+  const stored = cell.getValue();
+  if (isEmptyValue(stored)) return <>—</>;
+
+  // Key-valued columns show the labels of their options
+  const value = lookup
+    ? Array.isArray(stored) ? stored.map((key) => getLookupLabel(lookup, key)) : getLookupLabel(lookup, stored)
+    : stored;
+
+  const declared: MRT_ViewFormatOptions = typeof viewFormat === 'string'
+    ? {type: viewFormat}
+    : typeof viewFormat === 'object' ? viewFormat : {};
+  const options = {locale: table.options.localization.language, ...declared};
+  const context: MRT_ViewFormatContext<TData> = {value, options, cell, column, row, table};
+
+  if (typeof viewFormat === 'function') return <>{viewFormat(context)}</>;
+
+  const type = options.type ?? (lookup && !Array.isArray(value) ? 'text' : inferViewFormatType(value));
+  const formatter: MRT_ViewFormatter<TData> | undefined = table.options.viewFormatters?.[type];
+  if (formatter) return <>{formatter(context)}</>;
+  // The built-in formatters only read the value, options, column and table, so they fit any row type
+  const builtIn = MRT_DEFAULT_VIEW_FORMATTERS[type] ?? MRT_DEFAULT_VIEW_FORMATTERS.text!;
+  return <>{builtIn(context as MRT_ViewFormatContext<MRT_RowData>)}</>;
+};
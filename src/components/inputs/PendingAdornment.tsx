@@ -0,0 +1,13 @@
+// src/components/inputs/PendingAdornment.tsx
+import InputAdornment from "@mui/material/InputAdornment";
+import CircularProgress from "@mui/material/CircularProgress";
+
+/**
+ * Spinner shown at the end of an input while its async validation is in flight
+ * @private
+ */
+export const PendingAdornment = () => (
+  <InputAdornment position="end">
+    <CircularProgress size={16} aria-label="Validating"/>
+  </InputAdornment>
+);
@@ -1,4 +1,13 @@
 export * from './MRT_EditCellDatePicker';
 export * from './MRT_EditCellAutocomplete';
 export * from './MRT_EditCellTextarea';
-export * from './MRT_EditCellTextField';
\ No newline at end of file
+export * from './MRT_EditCellTextField';
+export * from './MRT_EditCellNumberField';
+export * from './MRT_EditCellDateTimePicker';
+export * from './MRT_EditCellTimePicker';
+export * from './MRT_EditCellDateRangePicker';
+export * from './MRT_EditCellCheckbox';
+export * from './MRT_EditCellSwitch';
+export * from './MRT_BooleanIcon';
+export * from './MRT_Markdown';
+export * from './MRT_ViewValue';
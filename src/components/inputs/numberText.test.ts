@@ -0,0 +1,52 @@
+import {describe, expect, it} from 'vitest';
+import {getSeparators, normalizeNumber, parseNumberText, toNumber} from './numberText';
+
+const GERMAN = {group: '.', decimal: ','};
+
+describe('getSeparators', () => {
+  it('reads the separators of a locale', () => {
+    expect(getSeparators('en-US')).toEqual({group: ',', decimal: '.'});
+    expect(getSeparators('de-DE')).toEqual(GERMAN);
+  });
+});
+
+describe('toNumber', () => {
+  it('converts stored values, keeping empty and malformed ones as null', () => {
+    expect(toNumber('12.5')).toBe(12.5);
+    expect(toNumber(0)).toBe(0);
+    expect(toNumber('')).toBeNull();
+    expect(toNumber(undefined)).toBeNull();
+    expect(toNumber('abc')).toBeNull();
+  });
+});
+
+describe('parseNumberText', () => {
+  it('drops group separators and whitespace and reads the locale decimal separator', () => {
+    expect(parseNumberText('1.234.567,89', GERMAN)).toBe(1234567.89);
+    expect(parseNumberText(' -1 000,5 ', GERMAN)).toBe(-1000.5);
+  });
+
+  it('returns null for empty text and undefined for malformed text', () => {
+    expect(parseNumberText('  ', GERMAN)).toBeNull();
+    expect(parseNumberText('1-2', GERMAN)).toBeUndefined();
+    expect(parseNumberText('1,2,3', GERMAN)).toBeUndefined();
+  });
+
+  it('divides by the edit factor', () => {
+    expect(parseNumberText('25', GERMAN, 100)).toBe(0.25);
+    expect(parseNumberText('14,3', GERMAN, 100)).toBe(0.143);
+  });
+});
+
+describe('normalizeNumber', () => {
+  it('clamps to min and max', () => {
+    expect(normalizeNumber(-5, {min: 0, max: 10})).toBe(0);
+    expect(normalizeNumber(15, {min: 0, max: 10})).toBe(10);
+    expect(normalizeNumber(null, {min: 0})).toBeNull();
+  });
+
+  it('rounds to the scale of the edited number', () => {
+    expect(normalizeNumber(1.005, {scale: 1})).toBe(1);
+    expect(normalizeNumber(0.12345, {scale: 1, factor: 100})).toBe(0.123);
+  });
+});
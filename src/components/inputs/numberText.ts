@@ -0,0 +1,75 @@
+/**
+ * @file numberText.ts
+ * @description Conversions between stored numbers and the text typed into MRT_EditCellNumberField.
+ */
+
+/**
+ * Group and decimal separators of a locale
+ * @private
+ */
+export interface NumberSeparators {
+  group: string;
+  decimal: string;
+}
+
+/**
+ * Gets the group and decimal separators of a locale
+ * @private
+ */
+export const getSeparators = (locale?: string): NumberSeparators => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+  };
+};
+
+/**
+ * Converts a stored cell value into a number (or null)
+ * @private
+ */
+export const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Converts an edited number back into a stored one, dropping the float noise of the division (12.3 / 100)
+ * @private
+ */
+const fromEditNumber = (number: number, factor: number) =>
+  factor === 1 ? number : Number((number / factor).toPrecision(15));
+
+/**
+ * Parses edit text back into a stored number
+ * @private
+ * @param input - The typed text
+ * @param separators - The locale's separators
+ * @param factor - What the stored number was multiplied by for editing (100 for percent)
+ * @returns The number, null when empty, or undefined when malformed
+ */
+export const parseNumberText = (input: string, separators: NumberSeparators, factor = 1): number | null | undefined => {
+  const normalized = input
+  .split(separators.group).join('')
+  .replace(/\s/g, '')
+  .replace(separators.decimal, '.');
+  if (normalized === '') return null;
+  const number = Number(normalized);
+  return Number.isFinite(number) ? fromEditNumber(number, factor) : undefined;
+};
+
+/**
+ * Rounds a stored number to the decimal scale (of the edited number) and clamps it to min/max
+ * @private
+ */
+export const normalizeNumber = (
+  number: number | null,
+  {min, max, scale, factor = 1}: { min?: number; max?: number; scale?: number; factor?: number }
+) => {
+  if (number === null) return null;
+  let result = scale !== undefined ? fromEditNumber(Number((number * factor).toFixed(scale)), factor) : number;
+  if (min !== undefined) result = Math.max(min, result);
+  if (max !== undefined) result = Math.min(max, result);
+  return result;
+};
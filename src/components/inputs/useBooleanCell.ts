@@ -0,0 +1,66 @@
+// src/components/inputs/useBooleanCell.ts
+import {useState} from "react";
+import type {MRT_Cell, MRT_RowData, MRT_TableInstance} from "material-react-table";
+import {isFieldEnabled, useCellValidation, useCellValueSync} from "../../state";
+import {updateEditingRow} from "../../utils";
+
+/**
+ * Reads a stored value as a boolean, accepting the "true"/"false" strings of older select-based columns
+ * @private
+ */
+const toBoolean = (value: unknown, allowNull: boolean): boolean | null => {
+  if (value === null || value === undefined || value === '') return allowNull ? null : false;
+  if (typeof value === 'string') return value.toLowerCase() === 'true';
+  return Boolean(value);
+};
+
+/**
+ * Shared state and handlers of the kit's checkbox and switch editors
+ *
+ * Stores real booleans (or null in tri-state mode) through updateEditingRow,
+ * so cell mode saves right away, and leaves cell editing mode after each change.
+ *
+ * @private
+ */
+export const useBooleanCell = <TData extends MRT_RowData>(
+  {cell, table, allowNull = false}: {
+    cell: MRT_Cell<TData>;
+    table: MRT_TableInstance<TData>;
+    allowNull?: boolean;
+  }
+) => {
+  const {options: {createDisplayMode, editDisplayMode}} = table;
+  const {column, row} = cell;
+  const {columnDef} = column;
+  const isCreating = table.getState().creatingRow?.id === row.id;
+
+  const [value, setValue] = useState(() => toBoolean(cell.getValue(), allowNull));
+  const {error, pending} = useCellValidation({cell, table});
+  useCellValueSync({cell, table}, (newValue) => setValue(toBoolean(newValue, allowNull)));
+
+  const isCellEdit = editDisplayMode === 'cell';
+
+  /**
+   * Moves to the next state: false → true → (null →) false
+   */
+  const toggle = () => {
+    const next = value === false ? true : value === true && allowNull ? null : false;
+    setValue(next);
+    updateEditingRow(table, cell, next);
+    if (isCellEdit) {
+      table.setEditingCell(null);
+    }
+  };
+
+  return {
+    value,
+    toggle,
+    error,
+    pending,
+    isCellEdit,
+    disabled: !isFieldEnabled(table, row, column),
+    label: ['custom', 'modal'].includes((isCreating ? createDisplayMode : editDisplayMode) as string)
+      ? columnDef.header
+      : undefined,
+  };
+};
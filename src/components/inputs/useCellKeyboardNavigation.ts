@@ -0,0 +1,90 @@
+// src/components/inputs/useCellKeyboardNavigation.ts
+import {type KeyboardEvent, useRef} from "react";
+import {type MRT_Cell, type MRT_RowData, type MRT_TableInstance, openEditingCell} from "material-react-table";
+import {updateEditingRow, validateEditingCell} from "../../utils";
+import {getNextEditableCell, isSameValue} from "../../state";
+
+/**
+ * Maps a key press to a navigation direction
+ * @private
+ */
+const getDirection = (event: KeyboardEvent, multiline: boolean) => {
+  if (event.key === 'Tab') return event.shiftKey ? 'previous' : 'next';
+  if (event.key !== 'Enter') return undefined;
+  // Multiline editors keep Enter for new lines (and Shift+Enter for leaving), so they move on Ctrl/Cmd+Enter
+  if (multiline) return event.ctrlKey || event.metaKey ? (event.shiftKey ? 'up' : 'down') : undefined;
+  return event.shiftKey ? 'up' : 'down';
+};
+
+/**
+ * Spreadsheet-style keys of the kit's editors in cell editing mode
+ *
+ * - Tab / Shift+Tab commit the value and edit the next / previous editable cell
+ * - Enter / Shift+Enter commit the value and edit the cell below / above
+ *   (Ctrl/Cmd+Enter and Ctrl/Cmd+Shift+Enter in multiline editors)
+ * - Escape restores the value the cell had when editing started and leaves edit mode
+ *
+ * The value is committed by blurring the editor, so its own blur handler saves it.
+ * When there is no cell left to move to (or on Escape), the focus goes back to the table cell.
+ * Editors skip their blur-save while `isCancelled()` is true.
+ *
+ * @private
+ */
+export const useCellKeyboardNavigation = <TData extends MRT_RowData>(
+  {cell, table, multiline = false}: {
+    cell: MRT_Cell<TData>;
+    table: MRT_TableInstance<TData>;
+    multiline?: boolean;
+  }
+) => {
+  const isCellEdit = table.options.editDisplayMode === 'cell';
+  const original = useRef(cell.getValue());
+  const cancelled = useRef(false);
+
+  /**
+   * Leaves edit mode, handing the focus back to the table cell so F2 and the arrow keys keep working
+   */
+  const leaveCell = (tableCell: HTMLElement | null) => {
+    table.setEditingCell(null);
+    tableCell?.focus();
+  };
+
+  /**
+   * Handles a navigation key. Returns whether the key was handled.
+   */
+  const handleNavigationKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (!isCellEdit || event.defaultPrevented || event.nativeEvent.isComposing) return false;
+    const tableCell = event.currentTarget.closest('td');
+
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      cancelled.current = true;
+      if (!isSameValue(cell.row._valuesCache[cell.column.id], original.current)) {
+        updateEditingRow(table, cell, original.current);
+      } else {
+        validateEditingCell(table, cell);
+      }
+      leaveCell(tableCell);
+      return true;
+    }
+
+    const direction = getDirection(event, multiline);
+    if (!direction) return false;
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Blurring commits the editor's pending input
+    (event.target as HTMLElement).blur();
+    const target = getNextEditableCell(table, cell, direction);
+    if (target) openEditingCell({cell: target, table});
+    else leaveCell(tableCell);
+    return true;
+  };
+
+  return {
+    isCellEdit,
+    handleNavigationKeyDown,
+    isCancelled: () => cancelled.current,
+  };
+};
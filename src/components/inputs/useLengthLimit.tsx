@@ -0,0 +1,49 @@
+// src/components/inputs/useLengthLimit.tsx
+import type {ReactNode} from "react";
+import Box from "@mui/material/Box";
+import type {MRT_Column, MRT_RowData} from "material-react-table";
+import {countLength, getLengthLimit, truncateToLimit, type MRT_LengthLimit} from "../../validation";
+
+/**
+ * Length limit and live counter of the kit's text editors
+ *
+ * The limit comes from the `maxLength` prop, or else the column's `validation.maxLength`
+ * (which MRT_SubmitDialogButton enforces for the whole form).
+ *
+ * @private
+ */
+export const useLengthLimit = <TData extends MRT_RowData>(
+  {column, value, maxLength}: {
+    column: MRT_Column<TData>;
+    value: unknown;
+    maxLength?: number | MRT_LengthLimit;
+  }
+) => {
+  const limit = getLengthLimit(maxLength ?? column.columnDef.validation?.maxLength);
+
+  /**
+   * Applies `blockInput`: cuts new input down to the limit
+   */
+  const limitInput = (text: string) => limit?.blockInput ? truncateToLimit(text, limit) : text;
+
+  /**
+   * Adds the "120 / 500" counter next to the helper text
+   */
+  const withCounter = (helperText: ReactNode): ReactNode => {
+    if (!limit) return helperText;
+    const count = countLength(typeof value === 'string' ? value : '', limit.unit);
+    const color = count > limit.max
+      ? 'error.main'
+      : count >= limit.max * (limit.warnAt ?? 0.9) ? 'warning.main' : undefined;
+    return (
+      <Box component="span" sx={{display: 'flex', justifyContent: 'space-between', gap: 1}}>
+        <span>{helperText}</span>
+        <Box component="span" sx={{color, whiteSpace: 'nowrap'}} aria-live="polite">
+          {count} / {limit.max}{limit.unit === 'words' ? ' words' : ''}
+        </Box>
+      </Box>
+    );
+  };
+
+  return {limit, limitInput, withCounter};
+};
@@ -0,0 +1,112 @@
+// src/components/inputs/usePickerCell.tsx
+import dayjs, {type Dayjs} from 'dayjs';
+import {type FocusEvent, type KeyboardEvent, type ReactNode, useState} from 'react';
+import Box from '@mui/material/Box';
+import CircularProgress from '@mui/material/CircularProgress';
+import type {TextFieldProps} from '@mui/material/TextField';
+import type {DateValidationError, PickerChangeHandlerContext} from '@mui/x-date-pickers';
+import type {MRT_Cell, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import {isFieldEnabled, useCellValidation, useCellValueSync} from '../../state';
+import {getDateJsTextFieldProps, getDateSerializer, updateEditingRow} from '../../utils';
+import type {MRT_DateValueFormat} from '../../dateSerialization';
+import {useCellKeyboardNavigation} from './useCellKeyboardNavigation';
+
+/**
+ * Helper text shown while an async validation is in flight
+ * (the end adornment is taken by the picker's open button)
+ * @private
+ */
+export const PendingHelperText = () => (
+  <Box component="span" sx={{display: 'inline-flex', alignItems: 'center', gap: 0.5}}>
+    <CircularProgress size={10}/> Validating…
+  </Box>
+);
+
+/**
+ * The subset of MUI X picker props the shared picker logic reads
+ * @template TError - The validation error type of the picker
+ * @private
+ */
+interface PickerCellProps<TError> {
+  label?: ReactNode;
+  onAccept?: (value: Dayjs | null, context: PickerChangeHandlerContext<TError>) => void;
+  slotProps?: { textField?: unknown };
+}
+
+/**
+ * Shared state and handlers of the kit's date/time picker editors
+ *
+ * Keeps the picker value, reads and writes it through the column's date serializer,
+ * leaves cell editing mode on accept and wires the column's validation into the text field.
+ * In cell editing mode the field takes the focus, and Tab/Enter/Escape navigate like the text editors.
+ *
+ * @private
+ */
+export const usePickerCell = <TData extends MRT_RowData, TError = DateValidationError>(
+  {cell, table, showLabel, pickerProps, valueFormat, defaultFormat}: {
+    cell: MRT_Cell<TData>;
+    table: MRT_TableInstance<TData>;
+    showLabel?: boolean;
+    pickerProps: PickerCellProps<TError>;
+    /** Explicit storage format, overriding the table/column `dateSerialization` */
+    valueFormat?: MRT_DateValueFormat;
+    /** Storage format used when nothing is configured */
+    defaultFormat: MRT_DateValueFormat;
+  }
+) => {
+  const {column} = cell;
+  const {columnDef} = column;
+  const {serialize, parse, timezone} = getDateSerializer(table, column, {format: valueFormat, defaultFormat});
+
+  const [value, setValue] = useState<Dayjs | null>(() => parse(cell.getValue()));
+  const {error, pending, validate} = useCellValidation({cell, table});
+  useCellValueSync({cell, table}, (newValue) => setValue(parse(newValue)));
+
+  const label = !showLabel
+    ? undefined
+    : pickerProps?.label ?? columnDef.header;
+
+  const handleChange = (newValue: Dayjs | null) => {
+    // Incomplete/invalid input is stored as null
+    updateEditingRow(table, cell, newValue?.isValid() ? serialize(newValue) : null);
+    if (newValue === null || dayjs.isDayjs(newValue)) setValue(newValue);
+  };
+
+  const {isCellEdit, handleNavigationKeyDown} = useCellKeyboardNavigation({cell, table});
+  const onAccept = (newValue: Dayjs | null, context: PickerChangeHandlerContext<TError>) => {
+    handleChange(newValue);
+    if (isCellEdit) {
+      table.setEditingCell(null);
+    }
+    pickerProps?.onAccept?.(newValue, context);
+  };
+
+  const textFieldProps = getDateJsTextFieldProps({
+    cell,
+    table,
+    textFieldProps: pickerProps?.slotProps?.textField as TextFieldProps
+  });
+
+  return {
+    value,
+    label,
+    timezone,
+    disabled: !isFieldEnabled(table, cell.row, column),
+    handleChange,
+    onAccept,
+    textField: {
+      autoFocus: isCellEdit,
+      ...textFieldProps,
+      ...(error ? {error: true, helperText: error} : {}),
+      ...(pending ? {helperText: <PendingHelperText/>} : {}),
+      onBlur: (event: FocusEvent<HTMLInputElement>) => {
+        (textFieldProps.onBlur as ((e: FocusEvent<HTMLInputElement>) => void) | undefined)?.(event);
+        validate();
+      },
+      onKeyDown: (event: KeyboardEvent<HTMLElement>) => {
+        (textFieldProps.onKeyDown as ((e: KeyboardEvent<HTMLElement>) => void) | undefined)?.(event);
+        handleNavigationKeyDown(event);
+      },
+    },
+  };
+};
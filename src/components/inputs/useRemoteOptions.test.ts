@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {act, renderHook} from '@testing-library/react';
+import {createInMemoryOptionsLoader, findCachedOption, type MRT_LoadOptions, useRemoteOptions} from './useRemoteOptions';
+
+const fruits = ['Apple', 'Apricot', 'Banana', 'Blueberry', 'Cherry'];
+
+/**
+ * An in-memory loader wrapped in a spy, so the tests see every request and its signal
+ */
+const createSpyLoader = (delay = 100) => vi.fn(createInMemoryOptionsLoader(fruits, {pageSize: 2, delay}));
+
+const renderRemoteOptions = (loadOptions: MRT_LoadOptions<string>, open = true) =>
+  renderHook((props) => useRemoteOptions(props), {initialProps: {loadOptions, debounceMs: 300, open}});
+
+describe('createInMemoryOptionsLoader', () => {
+  it('filters by label and pages the matches', async () => {
+    const load = createInMemoryOptionsLoader(fruits, {pageSize: 1});
+    const signal = new AbortController().signal;
+
+    await expect(load('ap', {signal, page: 0})).resolves.toEqual({options: ['Apple'], hasMore: true});
+    await expect(load('ap', {signal, page: 1})).resolves.toEqual({options: ['Apricot'], hasMore: false});
+  });
+
+  it('rejects once its request is aborted', async () => {
+    const load = createInMemoryOptionsLoader(fruits, {delay: 1000});
+    const controller = new AbortController();
+
+    const request = load('', {signal: controller.signal, page: 0});
+    controller.abort();
+    await expect(request).rejects.toBeDefined();
+  });
+});
+
+describe('useRemoteOptions', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('loads once the debounce delay has passed', async () => {
+    const loader = createSpyLoader();
+    const {result} = renderRemoteOptions(loader);
+
+    await act(() => vi.advanceTimersByTimeAsync(299));
+    expect(loader).not.toHaveBeenCalled();
+    expect(result.current.loading).toBe(true);
+
+    await act(() => vi.advanceTimersByTimeAsync(1));
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(result.current.loading).toBe(true);
+
+    await act(() => vi.advanceTimersByTimeAsync(100));
+    expect(result.current.options).toEqual(['Apple', 'Apricot']);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('only searches for the last query typed within the delay', async () => {
+    const loader = createSpyLoader();
+    const {result} = renderRemoteOptions(loader);
+
+    act(() => result.current.setQuery('b'));
+    await act(() => vi.advanceTimersByTimeAsync(100));
+    act(() => result.current.setQuery('bl'));
+    await act(() => vi.advanceTimersByTimeAsync(400));
+
+    expect(loader.mock.calls.map(([query]) => query)).toEqual(['bl']);
+    expect(result.current.options).toEqual(['Blueberry']);
+  });
+
+  it('does not load while closed', async () => {
+    const loader = createSpyLoader();
+    renderRemoteOptions(loader, false);
+
+    await act(() => vi.advanceTimersByTimeAsync(1000));
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  it('aborts a stale request and keeps its results out', async () => {
+    const loader = createSpyLoader(500);
+    const {result} = renderRemoteOptions(loader);
+
+    await act(() => vi.advanceTimersByTimeAsync(300));
+    const [[, {signal}]] = loader.mock.calls;
+    act(() => result.current.setQuery('ch'));
+    expect(signal.aborted).toBe(true);
+
+    await act(() => vi.advanceTimersByTimeAsync(900));
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(result.current.options).toEqual(['Cherry']);
+  });
+
+  it('aborts the running request on unmount', async () => {
+    const loader = createSpyLoader(500);
+    const {unmount} = renderRemoteOptions(loader);
+
+    await act(() => vi.advanceTimersByTimeAsync(300));
+    unmount();
+    expect(loader.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+
+  it('serves a query it already loaded from the cache, across editors', async () => {
+    const loader = createSpyLoader();
+    const first = renderRemoteOptions(loader);
+    act(() => first.result.current.setQuery('ban'));
+    await act(() => vi.advanceTimersByTimeAsync(400));
+    first.unmount();
+
+    const second = renderRemoteOptions(loader);
+    act(() => second.result.current.setQuery('ban'));
+    expect(second.result.current.options).toEqual(['Banana']);
+    expect(second.result.current.loading).toBe(false);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(findCachedOption(loader, (option) => option === 'Banana')).toBe('Banana');
+  });
+});
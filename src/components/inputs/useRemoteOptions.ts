@@ -0,0 +1,188 @@
+// src/components/inputs/useRemoteOptions.ts
+import {type UIEvent, useEffect, useRef, useState} from "react";
+
+/**
+ * One page of remotely loaded options
+ *
+ * @template TOption - The type of the options
+ */
+export interface MRT_OptionsPage<TOption> {
+  /** The options of this page */
+  options: readonly TOption[];
+  /** Whether more pages exist for the same query */
+  hasMore?: boolean;
+}
+
+/**
+ * Loads the options matching a search query.
+ * Returning a plain array means there is a single page.
+ *
+ * @template TOption - The type of the options
+ * @param query - The text typed into the input ('' when empty)
+ * @param context.signal - Aborted when the request became stale
+ * @param context.page - Zero-based page to load
+ */
+export type MRT_LoadOptions<TOption> = (
+  query: string,
+  context: { signal: AbortSignal; page: number }
+) => Promise<readonly TOption[] | MRT_OptionsPage<TOption>>;
+
+/**
+ * Loaded options of one query
+ * @private
+ */
+interface OptionsCacheEntry<TOption> {
+  query: string;
+  options: readonly TOption[];
+  page: number;
+  hasMore: boolean;
+}
+
+/**
+ * Results per loader and query, shared by every editor using the same loader
+ * @private
+ */
+const optionsCache = new WeakMap<MRT_LoadOptions<unknown>, Map<string, OptionsCacheEntry<unknown>>>();
+
+const getOptionsCache = <TOption>(loadOptions: MRT_LoadOptions<TOption>): Map<string, OptionsCacheEntry<TOption>> => {
+  // Entries of a loader only ever hold that loader's options
+  const loader = loadOptions as MRT_LoadOptions<unknown>;
+  let cache = optionsCache.get(loader);
+  if (!cache) {
+    cache = new Map();
+    optionsCache.set(loader, cache);
+  }
+  return cache as Map<string, OptionsCacheEntry<TOption>>;
+};
+
+/**
+ * Finds an already loaded option of a loader, in any cached query
+ * @private
+ */
+export const findCachedOption = <TOption>(
+  loadOptions: MRT_LoadOptions<TOption>,
+  predicate: (option: TOption) => boolean
+): TOption | undefined => {
+  for (const {options} of getOptionsCache(loadOptions).values()) {
+    const option = options.find(predicate);
+    if (option !== undefined) return option;
+  }
+  return undefined;
+};
+
+/**
+ * Creates a loader over an in-memory array, e.g. for tests, demos or prototyping
+ *
+ * @template TOption - The type of the options
+ * @param allOptions - All available options
+ * @param settings.getLabel - Text matched against the query. Defaults to `String(option)`.
+ * @param settings.pageSize - Options per page. Defaults to 50.
+ * @param settings.delay - Simulated latency in milliseconds. Defaults to 0.
+ * @returns A loader for the `loadOptions` prop
+ *
+ * @example
+ * ```tsx
+ * const loadCustomers = createInMemoryOptionsLoader(customers, {getLabel: (c) => c.name, delay: 300});
+ * ```
+ */
+export const createInMemoryOptionsLoader = <TOption>(
+  allOptions: readonly TOption[],
+  {getLabel = String, pageSize = 50, delay = 0}: {
+    getLabel?: (option: TOption) => string;
+    pageSize?: number;
+    delay?: number;
+  } = {}
+): MRT_LoadOptions<TOption> => (query, {signal, page}) =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const search = query.trim().toLowerCase();
+      const matches = search
+        ? allOptions.filter((option) => getLabel(option).toLowerCase().includes(search))
+        : allOptions;
+      const start = page * pageSize;
+      resolve({options: matches.slice(start, start + pageSize), hasMore: start + pageSize < matches.length});
+    }, delay);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+/**
+ * Remote option state of MRT_EditCellAutocomplete
+ *
+ * Debounces the search query, cancels stale requests, caches results per query
+ * and loads the next page when the listbox is scrolled to the bottom.
+ *
+ * @private
+ */
+export const useRemoteOptions = <TOption>(
+  {loadOptions, debounceMs, open}: {
+    loadOptions?: MRT_LoadOptions<TOption>;
+    debounceMs: number;
+    open: boolean;
+  }
+) => {
+  const [query, setQuery] = useState('');
+  const [entry, setEntry] = useState<OptionsCacheEntry<TOption> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const requestRef = useRef<AbortController | null>(null);
+
+  const fetchPage = async (loader: MRT_LoadOptions<TOption>, search: string, page: number) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setLoading(true);
+    try {
+      const result = await loader(search, {signal: controller.signal, page});
+      if (controller.signal.aborted) return;
+      const {options, hasMore = false} = Array.isArray(result)
+        ? {options: result as readonly TOption[]}
+        : result as MRT_OptionsPage<TOption>;
+      const cache = getOptionsCache(loader);
+      const previous = page > 0 ? cache.get(search)?.options ?? [] : [];
+      const next = {query: search, options: [...previous, ...options], page, hasMore};
+      cache.set(search, next);
+      setEntry(next);
+    } catch {
+      // Aborted or failed requests keep the current options
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!loadOptions || !open) return;
+    const cached = getOptionsCache(loadOptions).get(query);
+    if (cached) {
+      setEntry(cached);
+      return;
+    }
+    const timer = setTimeout(() => fetchPage(loadOptions, query, 0), debounceMs);
+    return () => {
+      clearTimeout(timer);
+      requestRef.current?.abort();
+    };
+  }, [loadOptions, query, open, debounceMs]);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const onListboxScroll = (event: UIEvent<HTMLElement>) => {
+    const listbox = event.currentTarget;
+    const atBottom = listbox.scrollTop + listbox.clientHeight >= listbox.scrollHeight - 1;
+    if (loadOptions && atBottom && entry?.query === query && entry.hasMore && !loading) {
+      void fetchPage(loadOptions, query, entry.page + 1);
+    }
+  };
+
+  return {
+    // Results of an older query stay visible until the new ones arrive
+    options: entry?.options ?? [],
+    loading: loading || (!!loadOptions && open && entry?.query !== query),
+    setQuery,
+    onListboxScroll,
+  };
+};
@@ -0,0 +1,30 @@
+// src/computed.ts
+import type {MRT_RowData} from 'material-react-table';
+import type {MRT_FieldConditionContext} from './conditions';
+
+/**
+ * A derived column, recalculated from the other row values while the row is edited.
+ * Declared on the column definition as `computed`.
+ *
+ * @template TData - The data type for the table row
+ *
+ * @example
+ * ```tsx
+ * {
+ *   accessorKey: 'total',
+ *   header: 'Total',
+ *   computed: {
+ *     compute: ({values}) => Number(values.quantity ?? 0) * Number(values.unitPrice ?? 0),
+ *     deps: ['quantity', 'unitPrice'],
+ *   },
+ * }
+ * ```
+ */
+export interface MRT_ComputedColumn<TData extends MRT_RowData> {
+  /** Calculates the value from the current row values */
+  compute: (context: MRT_FieldConditionContext<TData>) => unknown;
+  /** Column ids the value depends on. Defaults to every column. */
+  deps?: string[];
+  /** Whether the value is passed to onEditingRowSave / onCreatingRowSave. Defaults to false. */
+  includeInSave?: boolean;
+}
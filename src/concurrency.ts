@@ -0,0 +1,33 @@
+// src/concurrency.ts
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+
+/**
+ * Props handed to `getLatestRow`
+ *
+ * @template TData - The data type for the table row
+ */
+export interface MRT_LatestRowProps<TData extends MRT_RowData> {
+  /** The row being saved */
+  row: MRT_Row<TData>;
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+}
+
+/**
+ * A field whose saved value differs from the latest stored value
+ */
+export interface MRT_ConflictField {
+  /** The column id */
+  columnId: string;
+  /** The value about to be saved */
+  mine: unknown;
+  /** The latest stored value */
+  theirs: unknown;
+  /** The value when editing started */
+  base: unknown;
+}
+
+/**
+ * Which side wins for each conflicting field, by column id
+ */
+export type MRT_ConflictChoices = Record<string, 'mine' | 'theirs'>;
@@ -0,0 +1,33 @@
+// src/conditions.ts
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+
+/**
+ * Context handed to `visibleWhen` / `enabledWhen`
+ *
+ * @template TData - The data type for the table row
+ */
+export interface MRT_FieldConditionContext<TData extends MRT_RowData> {
+  /** The current row values (row._valuesCache) */
+  values: Record<string, unknown>;
+  /** The row being edited, created or viewed */
+  row: MRT_Row<TData>;
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+}
+
+/**
+ * A predicate over the live row values, declared on a column as `visibleWhen` or `enabledWhen`.
+ *
+ * @template TData - The data type for the table row
+ *
+ * @example
+ * ```tsx
+ * {
+ *   accessorKey: 'terminationDate',
+ *   header: 'Termination date',
+ *   visibleWhen: ({values}) => values.status === 'Terminated',
+ * }
+ * ```
+ */
+export type MRT_FieldCondition<TData extends MRT_RowData> =
+  (context: MRT_FieldConditionContext<TData>) => boolean;
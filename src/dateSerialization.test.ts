@@ -0,0 +1,56 @@
+import {describe, expect, it} from 'vitest';
+import dayjs from 'dayjs';
+import {createDateSerializer, parseDateValue} from './dateSerialization';
+
+// 2024-05-01 09:30 in Berlin (UTC+2)
+const PICKED = dayjs('2024-05-01T07:30:00.000Z');
+
+describe('createDateSerializer', () => {
+  it('stores the value in the requested format', () => {
+    expect(createDateSerializer({}, 'utc').serialize(PICKED)).toBe('2024-05-01T07:30:00.000Z');
+    expect(createDateSerializer({}, 'epoch').serialize(PICKED)).toBe(1714548600000);
+    expect(createDateSerializer({format: 'iso', timezone: 'Europe/Berlin'}, 'YYYY-MM-DD').serialize(PICKED))
+    .toBe('2024-05-01T09:30:00+02:00');
+    expect(createDateSerializer({timezone: 'Europe/Berlin'}, 'DD.MM.YYYY HH:mm').serialize(PICKED))
+    .toBe('01.05.2024 09:30');
+  });
+
+  it('reads custom formats strictly, in the configured timezone', () => {
+    const {parse} = createDateSerializer({timezone: 'Europe/Berlin'}, 'DD.MM.YYYY HH:mm');
+
+    expect(parse('01.05.2024 09:30')?.toISOString()).toBe('2024-05-01T07:30:00.000Z');
+  });
+
+  it('round-trips epoch values, stored as numbers or numeric strings', () => {
+    const {serialize, parse} = createDateSerializer({}, 'epoch');
+
+    expect(parse(serialize(PICKED))?.valueOf()).toBe(PICKED.valueOf());
+    expect(parse('1714548600000')?.valueOf()).toBe(PICKED.valueOf());
+  });
+
+  it('reads empty and unparseable values as null', () => {
+    const {parse} = createDateSerializer({}, 'YYYY-MM-DD');
+
+    expect(parse('')).toBeNull();
+    expect(parse(undefined)).toBeNull();
+    expect(parse('not a date')).toBeNull();
+    expect(parse(dayjs('invalid'))).toBeNull();
+  });
+
+  it('prefers a custom serializer and parser over the format', () => {
+    const {serialize, parse} = createDateSerializer({
+      format: 'epoch',
+      serialize: (value) => value.format('YYYYMMDD'),
+      parse: (value) => dayjs(String(value), 'YYYYMMDD'),
+    }, 'iso');
+
+    expect(serialize(dayjs('2024-05-01'))).toBe('20240501');
+    expect(parse('20240501')?.format('YYYY-MM-DD')).toBe('2024-05-01');
+  });
+});
+
+describe('parseDateValue', () => {
+  it('places time-only values on 1970-01-01', () => {
+    expect(parseDateValue('09:30')?.format('YYYY-MM-DD HH:mm')).toBe('1970-01-01 09:30');
+  });
+});
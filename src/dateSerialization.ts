@@ -0,0 +1,125 @@
+// src/dateSerialization.ts
+import dayjs, {type Dayjs} from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(customParseFormat);
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * How Dayjs values are stored in row._valuesCache:
+ * - `'iso'`: ISO-8601 with offset (2024-05-01T09:30:00+02:00)
+ * - `'utc'`: ISO-8601 in UTC (2024-05-01T07:30:00.000Z)
+ * - `'epoch'`: epoch milliseconds (1714548600000)
+ * - any other string: a Dayjs format string ('YYYY-MM-DD', 'DD.MM.YYYY HH:mm', ...)
+ */
+export type MRT_DateValueFormat = 'iso' | 'utc' | 'epoch' | (string & {});
+
+/**
+ * Date serialization settings.
+ * Declared on the table options and/or column definition as `dateSerialization`
+ * (column settings override table settings).
+ *
+ * @example
+ * ```tsx
+ * const table = useMaterialReactTable({
+ *   dateSerialization: {format: 'iso', timezone: 'Europe/Berlin'},
+ *   columns: [
+ *     {accessorKey: 'createdAt', header: 'Created', dateSerialization: {format: 'epoch'}},
+ *     {
+ *       accessorKey: 'dueDate',
+ *       header: 'Due',
+ *       dateSerialization: {
+ *         serialize: (value) => value.format('YYYYMMDD'),
+ *         parse: (value) => value ? dayjs(String(value), 'YYYYMMDD') : null,
+ *       },
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export interface MRT_DateSerialization {
+  /** Storage format (default: the editor's own format, e.g. 'YYYY-MM-DD' for dates) */
+  format?: MRT_DateValueFormat;
+  /** Custom serializer, takes precedence over `format` */
+  serialize?: (value: Dayjs) => unknown;
+  /** Custom parser reading a stored value back, takes precedence over `format` */
+  parse?: (value: unknown) => Dayjs | null;
+  /** IANA timezone (or 'UTC') values are edited and stored in; defaults to the local timezone */
+  timezone?: string;
+}
+
+/**
+ * A resolved serializer/parser pair
+ */
+export interface MRT_DateSerializer {
+  /** Converts a picked Dayjs into the stored value */
+  serialize: (value: Dayjs) => unknown;
+  /** Reads a stored value into a valid Dayjs, or null */
+  parse: (value: unknown) => Dayjs | null;
+  /** The configured timezone, if any */
+  timezone?: string;
+}
+
+/**
+ * Reads a stored date, date-time or time value into a Dayjs without a known format
+ *
+ * Time-only strings ('HH:mm' / 'HH:mm:ss') are placed on 1970-01-01 so Dayjs can parse them.
+ *
+ * @param value - The stored value (string, Date, epoch ms or Dayjs)
+ * @returns A valid Dayjs, or null for empty/unparseable values
+ */
+export const parseDateValue = (value: unknown): Dayjs | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'string' && /^\d{2}:\d{2}(:\d{2})?/.test(value)
+    ? dayjs(`1970-01-01T${value}`)
+    : dayjs(value as string | number | Date | Dayjs);
+  return parsed.isValid() ? parsed : null;
+};
+
+/**
+ * Creates the serializer/parser pair for a serialization config
+ *
+ * @param config - The serialization settings
+ * @param defaultFormat - Format used when the config has none
+ * @returns The serializer
+ */
+export const createDateSerializer = (
+  config: MRT_DateSerialization,
+  defaultFormat: MRT_DateValueFormat
+): MRT_DateSerializer => {
+  const {format = defaultFormat, timezone: tz} = config;
+  const toZone = (value: Dayjs) => tz ? value.tz(tz) : value;
+
+  const serialize = config.serialize ?? ((value: Dayjs) => {
+    switch (format) {
+      case 'iso':
+        return toZone(value).format();
+      case 'utc':
+        return value.toISOString();
+      case 'epoch':
+        return value.valueOf();
+      default:
+        return toZone(value).format(format);
+    }
+  });
+
+  const parse = config.parse ?? ((value: unknown) => {
+    if (value === null || value === undefined || value === '') return null;
+    if (dayjs.isDayjs(value)) return value.isValid() ? toZone(value) : null;
+
+    let parsed: Dayjs | null = null;
+    if (format === 'epoch' && !Number.isNaN(Number(value))) {
+      parsed = dayjs(Number(value));
+    } else if (!['iso', 'utc', 'epoch'].includes(format) && typeof value === 'string') {
+      const strict = tz ? dayjs.tz(value, format, tz) : dayjs(value, format, true);
+      if (strict.isValid()) return strict;
+    }
+    parsed ??= parseDateValue(value);
+    return parsed ? toZone(parsed) : null;
+  });
+
+  return {serialize, parse, timezone: tz};
+};
@@ -0,0 +1,16 @@
+// src/deleteRows.ts
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+
+/**
+ * Props handed to `onDeletingRow`
+ *
+ * @template TData - The data type for the table row
+ */
+export interface MRT_DeletingRowProps<TData extends MRT_RowData> {
+  /** Ids of the deleted rows */
+  rowIds: string[];
+  /** The deleted rows */
+  rows: MRT_Row<TData>[];
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+}
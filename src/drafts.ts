@@ -0,0 +1,56 @@
+// src/drafts.ts
+
+/**
+ * Where drafts are kept. `localStorage` and `sessionStorage` fit as they are.
+ */
+export interface MRT_DraftStorage {
+  /** Reads a stored draft, or null when there is none */
+  getItem: (key: string) => string | null;
+  /** Stores a draft */
+  setItem: (key: string, value: string) => void;
+  /** Deletes a draft */
+  removeItem: (key: string) => void;
+}
+
+/**
+ * Draft autosave settings, declared on the table options as `drafts`
+ */
+export interface MRT_DraftOptions {
+  /** Where drafts are kept (default: localStorage) */
+  storage?: MRT_DraftStorage;
+  /** Delay in ms between the last change and writing the draft (default 1000) */
+  debounceMs?: number;
+  /** How long in ms a draft is offered after it was written (default 7 days) */
+  expiresIn?: number;
+}
+
+/**
+ * A stored draft of a creating or editing row
+ */
+export interface MRT_Draft {
+  /** The row values (row._valuesCache) when the draft was written */
+  values: Record<string, unknown>;
+  /** When the draft was written (ms since epoch) */
+  savedAt: number;
+}
+
+/**
+ * Creates a draft storage kept in memory, for tests or when drafts should not outlive the page
+ *
+ * @returns A new, empty draft storage
+ *
+ * @example
+ * ```tsx
+ * const table = useMaterialReactTable({
+ *   drafts: {storage: createMemoryDraftStorage()},
+ * });
+ * ```
+ */
+export const createMemoryDraftStorage = (): MRT_DraftStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+};
@@ -7,5 +7,78 @@
 // Export all components
 export * from "./components"
 
+// Export editing state hooks and helpers
+export {
+  applyDraft,
+  clearDraft,
+  editViewingRow,
+  getBulkEditValues,
+  getCellEditKeyDownHandler,
+  getConflictingFields,
+  getDirtyFields,
+  getEditHistoryKeyDownHandler,
+  getNextEditableCell,
+  getRecordPosition,
+  getRowVersion,
+  getSourceRow,
+  isFieldEnabled,
+  isFieldVisible,
+  isMixedValue,
+  isRowDeletePending,
+  moveEditingRow,
+  readDraft,
+  recomputeEditingRow,
+  redoEditingRow,
+  resolveRowConflict,
+  setBulkEditingRow,
+  setCloningRow,
+  setEditingRowValue,
+  undoEditingRow,
+  undoRowDelete,
+  useCellValidation,
+  useCellValueSync,
+  useEditHistory,
+  usePendingDeleteRowIds,
+  usePendingRowDeletes,
+  useRowDirtyState,
+  useRowEditState,
+  waitForAsyncValidation,
+  XDateLocalizationProvider,
+  type MRT_EditHistory,
+  type MRT_EditHistoryEntry,
+  type MRT_PendingRowDelete,
+  type MRT_RowEditState,
+  type XDateLocalizationProviderProps
+} from "./state"
+
+// Export validation, date serialization, lookup, Markdown, field condition, computed column, dialog section, view format, bulk edit, delete, save conflict and draft types and helpers
+export * from "./validation"
+export * from "./dateSerialization"
+export * from "./lookup"
+export * from "./markdown"
+export * from "./conditions"
+export * from "./computed"
+export * from "./sections"
+export * from "./viewFormat"
+export * from "./bulkEdit"
+export * from "./deleteRows"
+export * from "./concurrency"
+export * from "./drafts"
+export * from "./types"
+
 // Export utility functions
-export { setViewingRow } from "./utils"
\ No newline at end of file
+export {
+  DATE_TIME_VALUE_FORMAT,
+  DATE_VALUE_FORMAT,
+  TIME_VALUE_FORMAT,
+  cancelEditingRow,
+  clearEditingRowState,
+  getEditRowDialogProps,
+  getEditSection,
+  getSubmitValues,
+  getDateSerializer,
+  requestCancelEditingRow,
+  setViewingRow,
+  validateEditingCell,
+  validateEditingRow
+} from "./utils"
\ No newline at end of file
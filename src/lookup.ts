@@ -0,0 +1,78 @@
+// src/lookup.ts
+
+/**
+ * How the options of a key-valued column (e.g. a foreign key) map to stored values and labels.
+ *
+ * Given once on the column definition as `lookup`, the only place MRT_EditCellAutocomplete reads key settings from,
+ * so MRT_EditDialog's view mode and the delete confirmation show the same labels as the editor.
+ * Labels outside the editor come from `options`: with remote options, list the options whose keys may be stored
+ * (or give the column a `Cell` renderer), as other keys are shown as they are.
+ *
+ * @template TOption - The type of the options
+ *
+ * @example
+ * ```tsx
+ * const columns: MRT_ColumnDef<Order>[] = [
+ *   {
+ *     accessorKey: 'customerId',
+ *     header: 'Customer',
+ *     lookup: {options: customers, valueKey: 'id', getOptionLabel: (customer: Customer) => customer.name},
+ *     Edit: ({cell, table}) => <MRT_EditCellAutocomplete cell={cell} table={table}/>,
+ *   },
+ * ];
+ * ```
+ */
+export interface MRT_OptionLookup<TOption = unknown> {
+  /** The options, used when the editor has no `options` or `loadOptions` of its own, and for labels outside the editor */
+  options?: readonly TOption[];
+  /** Property of the option that is stored in the row (any key while the option type is unknown) */
+  valueKey?: unknown extends TOption ? PropertyKey : keyof TOption;
+  /** Reads the stored value from an option (takes precedence over `valueKey`) */
+  getOptionValue?(option: TOption): unknown;
+  /** Text shown for an option. Defaults to the option's `label`, or the option itself for strings. */
+  getOptionLabel?(option: TOption): string;
+}
+
+/**
+ * Gets the function reading an option's stored key, or undefined when whole options are stored
+ *
+ * @param lookup - The lookup settings
+ * @returns The key reader
+ */
+export const getOptionKeyReader = <TOption>(
+  {getOptionValue, valueKey}: MRT_OptionLookup<TOption>
+): ((option: TOption) => unknown) | undefined => {
+  if (getOptionValue) return getOptionValue;
+  if (valueKey !== undefined) return (option) => (option as Record<PropertyKey, unknown> | null | undefined)?.[valueKey];
+  return undefined;
+};
+
+/**
+ * Default label of an option
+ * @private
+ */
+const defaultOptionLabel = (option: unknown): string => {
+  if (option === null || option === undefined) return '';
+  if (typeof option === 'object' && 'label' in option) return String(option.label);
+  return String(option);
+};
+
+/**
+ * Turns a stored value (a key, or an array of keys) into display text using the lookup options.
+ * Keys without a matching option are shown as they are.
+ *
+ * @param lookup - The lookup settings
+ * @param value - The stored value
+ * @returns The label(s), comma separated
+ */
+export const getLookupLabel = <TOption>(lookup: MRT_OptionLookup<TOption>, value: unknown): string => {
+  const toKey = getOptionKeyReader(lookup);
+  const toLabel = lookup.getOptionLabel ?? defaultOptionLabel;
+  const labelOf = (stored: unknown) => {
+    if (!toKey) return toLabel(stored as TOption);
+    const option = lookup.options?.find((candidate) => toKey(candidate) === stored);
+    return option !== undefined ? toLabel(option) : defaultOptionLabel(stored);
+  };
+  if (value === null || value === undefined) return '';
+  return Array.isArray(value) ? value.map(labelOf).join(', ') : labelOf(value);
+};
@@ -0,0 +1,29 @@
+import {describe, expect, it} from 'vitest';
+import {isSafeMarkdownUrl} from './markdown';
+
+describe('isSafeMarkdownUrl', () => {
+  it('allows http, https and mailto links', () => {
+    expect(isSafeMarkdownUrl('http://example.com')).toBe(true);
+    expect(isSafeMarkdownUrl('HTTPS://example.com/a?b=c')).toBe(true);
+    expect(isSafeMarkdownUrl('mailto:ada@example.com')).toBe(true);
+  });
+
+  it('allows relative paths and anchors', () => {
+    expect(isSafeMarkdownUrl('/docs/intro')).toBe(true);
+    expect(isSafeMarkdownUrl('../notes.md')).toBe(true);
+    expect(isSafeMarkdownUrl('#usage')).toBe(true);
+  });
+
+  it('drops script and data links, however they are cased or padded', () => {
+    expect(isSafeMarkdownUrl('javascript:alert(1)')).toBe(false);
+    expect(isSafeMarkdownUrl(' JavaScript:alert(1)')).toBe(false);
+    expect(isSafeMarkdownUrl('data:text/html,<script>alert(1)</script>')).toBe(false);
+    expect(isSafeMarkdownUrl('vbscript:msgbox(1)')).toBe(false);
+  });
+
+  it('drops links with control characters', () => {
+    expect(isSafeMarkdownUrl('java\tscript:alert(1)')).toBe(false);
+    expect(isSafeMarkdownUrl('java\nscript:alert(1)')).toBe(false);
+    expect(isSafeMarkdownUrl('https://example.com/\x00')).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+// src/markdown.ts
+
+/**
+ * Formatting actions of the Markdown toolbar and shortcuts
+ */
+export type MRT_MarkdownFormat = 'bold' | 'italic' | 'list' | 'link' | 'code';
+
+/**
+ * Result of applying a format: the new text and the selection to restore
+ */
+export interface MRT_MarkdownEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * Wraps the selection in a marker, or inserts an empty pair with the caret in between
+ * @private
+ */
+const wrapSelection = (text: string, start: number, end: number, before: string, after = before): MRT_MarkdownEdit => ({
+  text: text.slice(0, start) + before + text.slice(start, end) + after + text.slice(end),
+  selectionStart: start + before.length,
+  selectionEnd: end + before.length,
+});
+
+/**
+ * Applies a Markdown format to the selected part of a text
+ *
+ * - bold / italic / code wrap the selection (code blocks for multi-line selections)
+ * - list prefixes every selected line with "- "
+ * - link turns the selection into `[selection](url)` and selects "url"
+ *
+ * @param text - The full text
+ * @param start - Selection start
+ * @param end - Selection end
+ * @param format - The format to apply
+ * @returns The new text and selection
+ */
+export const formatMarkdown = (
+  text: string,
+  start: number,
+  end: number,
+  format: MRT_MarkdownFormat
+): MRT_MarkdownEdit => {
+  const selected = text.slice(start, end);
+  switch (format) {
+    case 'bold':
+      return wrapSelection(text, start, end, '**');
+    case 'italic':
+      return wrapSelection(text, start, end, '_');
+    case 'code':
+      return selected.includes('\n')
+        ? wrapSelection(text, start, end, '```\n', '\n```')
+        : wrapSelection(text, start, end, '`');
+    case 'link': {
+      const label = selected || 'link';
+      const before = `${text.slice(0, start)}[${label}](`;
+      return {
+        text: `${before}url)${text.slice(end)}`,
+        selectionStart: before.length,
+        selectionEnd: before.length + 3,
+      };
+    }
+    case 'list': {
+      const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+      const lines = text.slice(lineStart, end).split('\n');
+      const listed = lines.map((line) => line.startsWith('- ') ? line : `- ${line}`).join('\n');
+      return {
+        text: text.slice(0, lineStart) + listed + text.slice(end),
+        selectionStart: lineStart,
+        selectionEnd: lineStart + listed.length,
+      };
+    }
+  }
+};
+
+/**
+ * Keyboard shortcuts of the Markdown editor (with Ctrl, or Cmd on macOS)
+ */
+export const MARKDOWN_SHORTCUTS: Record<string, MRT_MarkdownFormat> = {
+  b: 'bold',
+  i: 'italic',
+  k: 'link',
+  e: 'code',
+  l: 'list',
+};
+
+/**
+ * Whether a link target is safe to render: http(s), mailto, or a relative path/anchor.
+ * Anything else (javascript:, data:, vbscript:, ...) is dropped, as are targets with control characters.
+ * The scheme is read the way browsers read it, by resolving the target against a base URL.
+ *
+ * @param url - The link target
+ * @returns True if the link may be rendered
+ */
+export const isSafeMarkdownUrl = (url: string) => {
+  if (/[\x00-\x1f\x7f]/.test(url)) return false;
+  try {
+    return ['http:', 'https:', 'mailto:'].includes(new URL(url.trim(), 'http://x/').protocol);
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,64 @@
+// src/sections.ts
+
+/**
+ * How MRT_EditDialog lays out its sections
+ * - `accordion`: titled, collapsible sections stacked vertically
+ * - `tabs`: one tab per section
+ */
+export type MRT_EditSectionLayout = 'accordion' | 'tabs';
+
+/**
+ * Settings of one MRT_EditDialog section, given per section name in the dialog's `sections` prop.
+ *
+ * A field's section is the column's `editSection`, or else the header of its MRT column group.
+ *
+ * @example
+ * ```tsx
+ * <MRT_EditDialog
+ *   table={table}
+ *   row={row}
+ *   components={internalEditComponents}
+ *   columnCount={2}
+ *   sectionLayout="tabs"
+ *   sections={{Address: {columnCount: 3}, Notes: {columnCount: 1}}}
+ * />
+ * ```
+ */
+export interface MRT_EditSectionOptions {
+  /** Title shown for the section. Defaults to the section name. */
+  title?: string;
+  /** Number of grid columns in this section. Defaults to the dialog's `columnCount`. */
+  columnCount?: number;
+  /** Whether the accordion starts expanded. Defaults to true. */
+  defaultExpanded?: boolean;
+}
+
+/**
+ * One step of MRT_EditDialog's create wizard, given in order in the dialog's `wizardSteps` prop.
+ *
+ * Fields not listed in any step are shown on the last step.
+ *
+ * @example
+ * ```tsx
+ * <MRT_EditDialog
+ *   table={table}
+ *   row={row}
+ *   components={internalEditComponents}
+ *   wizardSteps={[
+ *     {title: 'Customer', columns: ['customerId', 'contact']},
+ *     {title: 'Lines', columns: ['product', 'quantity', 'unitPrice'], columnCount: 3},
+ *     {title: 'Shipping', columns: ['address', 'shipDate']},
+ *   ]}
+ * />
+ * ```
+ */
+export interface MRT_EditWizardStep {
+  /** Step title shown in the stepper */
+  title: string;
+  /** Ids of the columns edited in this step */
+  columns: string[];
+  /** Optional caption shown under the title */
+  description?: string;
+  /** Number of grid columns in this step. Defaults to the dialog's `columnCount`. */
+  columnCount?: number;
+}
@@ -1,28 +1,84 @@
 // src/config/@mui/x-date-pickers/XDateLocalizationProvider.tsx
 import { AdapterDayjs } from "@mui/x-date-pickers/AdapterDayjs";
-import { LocalizationProvider } from "@mui/x-date-pickers/LocalizationProvider";
+import { LocalizationProvider, type LocalizationProviderProps } from "@mui/x-date-pickers/LocalizationProvider";
+import { usePickerAdapter } from "@mui/x-date-pickers/hooks";
 import type { FC, PropsWithChildren } from "react";
 
+/**
+ * Props for the XDateLocalizationProvider component.
+ */
+export type XDateLocalizationProviderProps = PropsWithChildren<{
+  /** Dayjs locale (e.g. 'de', 'en-gb'), which sets the week start and the localized input formats. The locale must be imported (`import 'dayjs/locale/de'`). */
+  adapterLocale?: string;
+  /** Translations of the picker texts (e.g. `deDE.components.MuiLocalizationProvider.defaultProps.localeText`). */
+  localeText?: LocalizationProviderProps<string>['localeText'];
+  /**
+   * Reuse an enclosing LocalizationProvider (MUI's own or another XDateLocalizationProvider) instead of nesting a new one.
+   * Defaults to true; set it to false to always create a new adapter.
+   */
+  reuseExisting?: boolean;
+}>;
+
+/**
+ * Whether a LocalizationProvider with a date adapter is mounted above
+ * @private
+ */
+const useHasPickerAdapter = () => {
+  try {
+    // Throws when there is no enclosing provider or it has no adapter
+    usePickerAdapter();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 /**
  * You can use XDateLocalizationProvider in two ways for date/time localization with Material-UI X Date Pickers:
- *  1. Top-Level Provider: 
- *      Wrapping your entire application with XDateLocalizationProvider sets the default localization provider for all 
+ *  1. Top-Level Provider:
+ *      Wrapping your entire application with XDateLocalizationProvider sets the default localization provider for all
  *      MUI X Date Pickers used throughout the app. This is a good approach if you want a consistent localization format
  *      across all date pickers.
  *      - Scope: Applies localization settings to all MUI X Date Pickers in the entire application.
  *      - Pros: Consistent localization across the entire app, easier to manage.
  *      - Cons: Less flexibility if you need different localization settings in different parts of the app.
- *  2. Localized Component Provider: 
- *      Wrapping specific components that use MUI X Date Pickers with XDateLocalizationProvider applies the localization 
- *      only to those components. This can be useful if you need different localization settings for different parts of 
+ *  2. Localized Component Provider:
+ *      Wrapping specific components that use MUI X Date Pickers with XDateLocalizationProvider applies the localization
+ *      only to those components. This can be useful if you need different localization settings for different parts of
  *      your application.
  *      - Scope: Applies localization settings only to the specific components wrapped in the provider.
  *      - Pros: More flexibility to customize localization settings for different parts of the app.
  *      - Cons: Requires more configuration and management if you have many components that need different settings.
+ *
+ * When an enclosing LocalizationProvider already exists (MUI's own or an XDateLocalizationProvider), it is reused:
+ * without an `adapterLocale` no new adapter is created, so the kit's date editors pick up the app-level locale.
+ * Pass `reuseExisting={false}` to nest a default-locale provider anyway.
+ *
+ * @example
+ * ```tsx
+ * import 'dayjs/locale/de';
+ * import {deDE} from '@mui/x-date-pickers/locales';
+ *
+ * <XDateLocalizationProvider
+ *   adapterLocale="de"
+ *   localeText={deDE.components.MuiLocalizationProvider.defaultProps.localeText}
+ * >
+ *   <App/>
+ * </XDateLocalizationProvider>
+ * ```
  */
-export const XDateLocalizationProvider: FC<PropsWithChildren> = ({ children }) => {
+export const XDateLocalizationProvider: FC<XDateLocalizationProviderProps> = (
+  { children, adapterLocale, localeText, reuseExisting = true }
+) => {
+  const hasProvider = useHasPickerAdapter();
+
+  if (reuseExisting && hasProvider && !adapterLocale) {
+    // Inherit the enclosing adapter, only merging in extra locale texts
+    return localeText ? <LocalizationProvider localeText={localeText}>{children}</LocalizationProvider> : <>{children}</>;
+  }
+
   return (
-    <LocalizationProvider dateAdapter={AdapterDayjs}>
+    <LocalizationProvider dateAdapter={AdapterDayjs} adapterLocale={adapterLocale} localeText={localeText}>
       {children}
     </LocalizationProvider>
   );
@@ -0,0 +1,171 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import type {MRT_Column, MRT_Row, MRT_TableInstance} from 'material-react-table';
+import {cancelAsyncValidation, scheduleAsyncValidation, waitForAsyncValidation} from './asyncValidation';
+import {getEditRowStore} from './editRowStore';
+import type {MRT_AsyncValidator} from '../validation';
+
+type User = { username: string };
+
+/**
+ * A promise-based stand-in for a server check: every call waits until the test settles it
+ */
+const createFakeValidator = () => {
+  const calls: { value: unknown; signal: AbortSignal; settle: (error?: string) => void }[] = [];
+  const validator = vi.fn<MRT_AsyncValidator<User>>(({value, signal}) =>
+    new Promise((resolve) => calls.push({value, signal, settle: (error) => resolve(error)})));
+  return {validator, calls};
+};
+
+const setup = (validateAsync: MRT_AsyncValidator<User>) => {
+  const table = {} as MRT_TableInstance<User>;
+  const row = {id: 'row-1'} as MRT_Row<User>;
+  const column = {
+    id: 'username',
+    columnDef: {validation: {validateAsync, asyncDebounceMs: 300}},
+  } as unknown as MRT_Column<User>;
+  const schedule = (value: unknown, immediate = false) =>
+    scheduleAsyncValidation({table, row, column, value, values: {username: value}, immediate});
+  const getErrors = () => getEditRowStore(table).getRow(row.id).errors;
+  return {table, row, schedule, getErrors};
+};
+
+describe('scheduleAsyncValidation', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('runs the validator once the debounce delay has passed', async () => {
+    const {validator, calls} = createFakeValidator();
+    const {schedule, getErrors} = setup(validator);
+
+    const entry = schedule('taken');
+    await vi.advanceTimersByTimeAsync(299);
+    expect(validator).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toHaveLength(1);
+    calls[0].settle('Username is taken');
+
+    await expect(entry.promise).resolves.toBe('Username is taken');
+    expect(entry.settled).toBe(true);
+    expect(getErrors().username).toBe('Username is taken');
+  });
+
+  it('reuses the run of an unchanged value', async () => {
+    const {validator} = createFakeValidator();
+    const {schedule} = setup(validator);
+
+    const first = schedule('same');
+    expect(schedule('same')).toBe(first);
+    await vi.advanceTimersByTimeAsync(300);
+    expect(validator).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts a superseded run and ignores its late response', async () => {
+    const {validator, calls} = createFakeValidator();
+    const {schedule, getErrors} = setup(validator);
+
+    const stale = schedule('first', true);
+    await vi.advanceTimersByTimeAsync(0);
+    const fresh = schedule('second', true);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(calls[0].signal.aborted).toBe(true);
+    await expect(stale.promise).resolves.toBeUndefined();
+
+    calls[1].settle();
+    calls[0].settle('Username is taken'); // arrives last, but belongs to the superseded value
+    await expect(fresh.promise).resolves.toBeUndefined();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stale.settled).toBe(false);
+    expect(getErrors().username).toBeUndefined();
+  });
+
+  it('skips a debounced run superseded before it started', async () => {
+    const {validator, calls} = createFakeValidator();
+    const {schedule} = setup(validator);
+
+    schedule('a');
+    await vi.advanceTimersByTimeAsync(100);
+    schedule('ab');
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(calls.map(({value}) => value)).toEqual(['ab']);
+  });
+
+  it('turns a rejected validator into an error message', async () => {
+    const {schedule, getErrors} = setup(() => Promise.reject(new Error('Server unavailable')));
+
+    const entry = schedule('anything', true);
+    await expect(entry.promise).resolves.toBe('Server unavailable');
+    expect(getErrors().username).toBe('Server unavailable');
+  });
+});
+
+describe('cancelAsyncValidation', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('aborts the running validation and never stores its result', async () => {
+    const {validator, calls} = createFakeValidator();
+    const {table, row, schedule, getErrors} = setup(validator);
+
+    const entry = schedule('taken', true);
+    await vi.advanceTimersByTimeAsync(0);
+    cancelAsyncValidation(table, row.id);
+
+    expect(calls[0].signal.aborted).toBe(true);
+    await expect(entry.promise).resolves.toBeUndefined();
+    calls[0].settle('Username is taken');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getErrors().username).toBeUndefined();
+  });
+
+  it('drops a debounced validation before it starts', async () => {
+    const {validator} = createFakeValidator();
+    const {table, row, schedule} = setup(validator);
+
+    schedule('taken');
+    cancelAsyncValidation(table, row.id, 'username');
+    await vi.advanceTimersByTimeAsync(300);
+    expect(validator).not.toHaveBeenCalled();
+  });
+});
+
+describe('waitForAsyncValidation', () => {
+  it('starts debounced validations right away and waits for them', async () => {
+    const {validator, calls} = createFakeValidator();
+    const {table, row, schedule, getErrors} = setup(validator);
+
+    schedule('taken');
+    const done = waitForAsyncValidation(table, row.id);
+    await Promise.resolve();
+    expect(calls).toHaveLength(1);
+
+    calls[0].settle('Username is taken');
+    await done;
+    expect(getErrors().username).toBe('Username is taken');
+  });
+
+  it('waits for the run that replaced a superseded one', async () => {
+    const {validator, calls} = createFakeValidator();
+    const {table, row, schedule, getErrors} = setup(validator);
+
+    schedule('first', true);
+    let finished = false;
+    const done = waitForAsyncValidation(table, row.id).then(() => (finished = true));
+    await Promise.resolve();
+
+    schedule('second', true); // the first run is aborted, so the wait moves on to this one
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(finished).toBe(false);
+
+    calls[calls.length - 1].settle();
+    await done;
+    expect(getErrors().username).toBeUndefined();
+  });
+
+  it('resolves at once when nothing is pending', async () => {
+    const {table, row} = setup(createFakeValidator().validator);
+    await expect(waitForAsyncValidation(table, row.id)).resolves.toBeUndefined();
+  });
+});
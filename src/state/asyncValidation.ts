@@ -0,0 +1,155 @@
+// src/state/asyncValidation.ts
+import type {MRT_Column, MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import {getEditRowStore} from './editRowStore';
+
+/**
+ * A single debounced async validation run for one cell
+ */
+export interface MRT_AsyncValidationEntry {
+  /** The value being validated */
+  value: unknown;
+  /** Whether the validator has finished */
+  settled: boolean;
+  /** The resulting error, once settled */
+  error?: string;
+  /** Resolves with the error once settled (or undefined when cancelled) */
+  promise: Promise<string | undefined>;
+}
+
+/**
+ * Internal entry with its timer and abort handles
+ * @private
+ */
+interface AsyncEntry extends MRT_AsyncValidationEntry {
+  start: () => void;
+  cancel: () => void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 300;
+
+// table -> row id -> column id -> entry
+const entries = new WeakMap<object, Map<string, Map<string, AsyncEntry>>>();
+
+const getRowEntries = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>, rowId: string) => {
+  let rows = entries.get(table);
+  if (!rows) entries.set(table, rows = new Map());
+  let row = rows.get(rowId);
+  if (!row) rows.set(rowId, row = new Map());
+  return row;
+};
+
+/**
+ * Runs (or reuses) the async validator of a column for a candidate value
+ *
+ * A run for the same value is reused; a run for a different value cancels the previous one,
+ * aborting its signal so its response is ignored. The validator starts after the column's
+ * `asyncDebounceMs`, unless `immediate` is set.
+ * Once settled, the result is written to the row's errors and its pending flag is cleared.
+ *
+ * @template TData - The data type for the table row
+ * @returns The validation entry for the value
+ */
+export const scheduleAsyncValidation = <TData extends MRT_RowData>(
+  {table, row, column, value, values, immediate = false}: {
+    table: MRT_TableInstance<TData>;
+    row: MRT_Row<TData>;
+    column: MRT_Column<TData>;
+    value: unknown;
+    values: Record<string, unknown>;
+    immediate?: boolean;
+  }
+): MRT_AsyncValidationEntry => {
+  const {validateAsync, asyncDebounceMs = DEFAULT_DEBOUNCE_MS} = column.columnDef.validation ?? {};
+  const rowEntries = getRowEntries(table, row.id);
+  const previous = rowEntries.get(column.id);
+
+  if (previous && Object.is(previous.value, value)) {
+    if (immediate) previous.start();
+    return previous;
+  }
+  previous?.cancel();
+
+  let resolve: (error: string | undefined) => void = () => undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let started = false;
+  const controller = new AbortController();
+
+  const entry: AsyncEntry = {
+    value,
+    settled: false,
+    promise: new Promise((r) => (resolve = r)),
+    start: () => {
+      clearTimeout(timer);
+      if (started) return;
+      started = true;
+      Promise.resolve()
+      .then(() => validateAsync?.({value, values, column, row, table, signal: controller.signal}))
+      .then(
+        (result) => result || undefined,
+        (reason) => reason instanceof Error ? reason.message : String(reason)
+      )
+      .then((error) => {
+        if (controller.signal.aborted) return; // stale response
+        entry.settled = true;
+        entry.error = error;
+        getEditRowStore(table).setRow(row.id, (prev) => ({
+          ...prev,
+          errors: {...prev.errors, [column.id]: error},
+          pending: {...prev.pending, [column.id]: false},
+        }));
+        resolve(error);
+      });
+    },
+    cancel: () => {
+      clearTimeout(timer);
+      controller.abort();
+      resolve(undefined);
+    },
+  };
+
+  rowEntries.set(column.id, entry);
+  if (immediate) entry.start();
+  else timer = setTimeout(entry.start, asyncDebounceMs);
+  return entry;
+};
+
+/**
+ * Cancels the async validations of a row (or of a single column in it)
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param rowId - The row id
+ * @param columnId - Optional column id; cancels the whole row when omitted
+ */
+export const cancelAsyncValidation = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  rowId: string,
+  columnId?: string
+) => {
+  const rowEntries = getRowEntries(table, rowId);
+  rowEntries.forEach((entry, id) => {
+    if (columnId !== undefined && id !== columnId) return;
+    entry.cancel();
+    rowEntries.delete(id);
+  });
+};
+
+/**
+ * Waits until no async validation of a row is pending.
+ * Debounced validations are started right away instead of waiting out their delay.
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param rowId - The row id
+ */
+export const waitForAsyncValidation = async <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  rowId: string
+) => {
+  const getUnsettled = () => [...getRowEntries(table, rowId).values()].filter((entry) => !entry.settled);
+  // loop, as a cancelled entry may have been replaced by a newer run meanwhile
+  for (let unsettled = getUnsettled(); unsettled.length; unsettled = getUnsettled()) {
+    unsettled.forEach((entry) => entry.start());
+    await Promise.all(unsettled.map((entry) => entry.promise));
+  }
+};
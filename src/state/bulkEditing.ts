@@ -0,0 +1,91 @@
+// src/state/bulkEditing.ts
+import {createRow, type MRT_Column, type MRT_Row, type MRT_RowData, type MRT_TableInstance} from 'material-react-table';
+import {getEditRowStore} from './editRowStore';
+import {getDirtyFields, isSameValue} from './dirtyTracking';
+import {getSubmitValues} from '../utils';
+
+/**
+ * Opens MRT's edit dialog for several rows at once (by default the selected rows), under the row id 'mrt-row-bulk'
+ *
+ * Columns the rows agree on start with the shared value; the others are marked as mixed and start empty.
+ * Only the fields the user changes are validated and passed to the table's `onBulkEditingRowSave`,
+ * which MRT_SubmitDialogButton calls instead of `onEditingRowSave`.
+ *
+ * @example
+ * ```tsx
+ * <Button onClick={() => setBulkEditingRow({table})} disabled={!table.getSelectedRowModel().rows.length}>
+ *   Edit selected
+ * </Button>
+ * ```
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and, optionally, the rows to edit
+ * @param options.table - The Material React Table instance
+ * @param options.rows - The rows to edit (default: the selected rows)
+ */
+export const setBulkEditingRow = <TData extends MRT_RowData>(
+  {table, rows = table.getSelectedRowModel().rows}: { table: MRT_TableInstance<TData>; rows?: MRT_Row<TData>[] }
+) => {
+  if (!rows.length) return;
+  const values: Record<string, unknown> = {};
+  const mixed: string[] = [];
+
+  table
+  .getAllLeafColumns()
+  .filter((column) => column.columnDef.columnDefType === 'data')
+  .forEach((column) => {
+    const first = rows[0].getValue(column.id);
+    const isShared = rows.every((candidate) => isSameValue(candidate.getValue(column.id), first));
+    values[column.id] = isShared ? first : undefined;
+    if (!isShared) mixed.push(column.id);
+  });
+
+  // A detached row, so the edits never touch the selected rows themselves
+  const bulkRow = createRow(table, {...rows[0].original});
+  bulkRow.id = 'mrt-row-bulk';
+  bulkRow._valuesCache = {...values} as MRT_Row<TData>['_valuesCache'];
+
+  const store = getEditRowStore(table);
+  store.clearRow('mrt-row-bulk');
+  store.setRow('mrt-row-bulk', (prev) => ({...prev, bulk: {rowIds: rows.map(({id}) => id), values, mixed}}));
+  table.setEditingRow(bulkRow);
+};
+
+/**
+ * Gets the fields changed in a bulk edit, without hidden or computed columns
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The 'mrt-row-bulk' row
+ * @returns The changed values, keyed by column id
+ */
+export const getBulkEditValues = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>
+): Record<string, unknown> => {
+  const submitValues = getSubmitValues(table, row);
+  return Object.fromEntries(
+    Object.keys(getDirtyFields(table, row))
+    .filter((columnId) => Object.hasOwn(submitValues, columnId))
+    .map((columnId) => [columnId, submitValues[columnId]])
+  );
+};
+
+/**
+ * Checks whether a field of a bulk edit still holds differing values (it is mixed and unchanged)
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being edited
+ * @param column - The column to check
+ * @returns True while the field shows "Mixed values"
+ */
+export const isMixedValue = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>,
+  column: MRT_Column<TData>
+) => {
+  const bulk = getEditRowStore(table).getRow(row.id).bulk;
+  return !!bulk?.mixed.includes(column.id)
+    && isSameValue(row._valuesCache[column.id as keyof MRT_Row<TData>['_valuesCache']], bulk.values[column.id]);
+};
@@ -0,0 +1,76 @@
+// src/state/cellNavigation.ts
+import type {KeyboardEvent as ReactKeyboardEvent} from 'react';
+import {
+  isCellEditable,
+  openEditingCell,
+  type MRT_Cell,
+  type MRT_Row,
+  type MRT_RowData,
+  type MRT_TableInstance,
+} from 'material-react-table';
+import {isFieldEnabled} from './fieldConditions';
+
+/**
+ * Finds the editable cell that keyboard navigation moves to in cell editing mode
+ *
+ * 'next' and 'previous' walk the rendered rows in reading order (Tab / Shift+Tab),
+ * 'down' and 'up' stay in the cell's column (Enter / Shift+Enter).
+ * Display columns, grouped rows and cells whose row or column has `enableEditing` false are skipped,
+ * as are fields disabled through `computed` or `enabledWhen`.
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param cell - The cell being edited
+ * @param direction - Where to move
+ * @returns The cell to edit next, or undefined at the edge of the table
+ */
+export const getNextEditableCell = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  cell: MRT_Cell<TData>,
+  direction: 'next' | 'previous' | 'down' | 'up'
+): MRT_Cell<TData> | undefined => {
+  const grid = (table.getRowModel().rows as MRT_Row<TData>[])
+  .filter((row) => !row.getIsGrouped())
+  .map((row) => (row.getVisibleCells() as MRT_Cell<TData>[])
+  .filter(({column}) => column.columnDef.columnDefType === 'data'));
+
+  const rowIndex = grid.findIndex((cells) => cells.some(({id}) => id === cell.id));
+  if (rowIndex < 0) return undefined;
+
+  const inColumn = (cells: MRT_Cell<TData>[]) => cells.find(({column}) => column.id === cell.column.id);
+  const flat = grid.flat();
+  const flatIndex = flat.findIndex(({id}) => id === cell.id);
+  const candidates = {
+    next: () => flat.slice(flatIndex + 1),
+    previous: () => flat.slice(0, flatIndex).reverse(),
+    down: () => grid.slice(rowIndex + 1).map(inColumn),
+    up: () => grid.slice(0, rowIndex).reverse().map(inColumn),
+  }[direction]();
+
+  return candidates.find((candidate): candidate is MRT_Cell<TData> =>
+    !!candidate
+    && !!isCellEditable({cell: candidate, table})
+    && isFieldEnabled(table, candidate.row, candidate.column));
+};
+
+/**
+ * Creates a keydown handler for table body cells that starts editing the focused cell on F2
+ *
+ * Only applies in cell editing mode, and only while the cell itself (not its editor) has the focus.
+ *
+ * @example
+ * ```tsx
+ * muiTableBodyCellProps: ({cell, table}) => ({onKeyDown: getCellEditKeyDownHandler({table, cell})}),
+ * ```
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and cell
+ * @returns A keydown event handler
+ */
+export const getCellEditKeyDownHandler = <TData extends MRT_RowData>(
+  {table, cell}: { table: MRT_TableInstance<TData>; cell: MRT_Cell<TData> }
+) => (event: ReactKeyboardEvent) => {
+  if (event.key !== 'F2' || event.target !== event.currentTarget) return;
+  event.preventDefault();
+  openEditingCell({cell, table});
+};
@@ -0,0 +1,53 @@
+// src/state/cloneRow.ts
+import {createRow, type MRT_Row, type MRT_RowData} from 'material-react-table';
+import type {RTV} from '../components';
+import {getEditRowStore} from './editRowStore';
+import {recomputeEditingRow} from './computedColumns';
+
+/**
+ * Opens MRT's create dialog prefilled with a copy of a row's values, titled "Duplicate" by MRT_EditDialog
+ *
+ * The copy is saved like any new row, through `onCreatingRowSave`.
+ *
+ * @example
+ * ```tsx
+ * <Button onClick={() => setCloningRow({
+ *   table,
+ *   row,
+ *   omit: ['id', 'createdAt', 'updatedAt'],
+ *   transform: (values) => ({...values, name: `${values.name} (copy)`}),
+ * })}>
+ *   Duplicate
+ * </Button>
+ * ```
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table, row and copy options
+ * @param options.table - The Material React Table instance
+ * @param options.row - The row to copy
+ * @param options.omit - Column ids left out of the copy (ids, timestamps, ...)
+ * @param options.transform - Adjusts the copied values before the dialog opens
+ */
+export const setCloningRow = <TData extends MRT_RowData>(
+  {table, row, omit = [], transform}: Pick<RTV<TData>, 'row' | 'table'> & {
+    omit?: string[];
+    transform?: (values: Record<string, unknown>, row: MRT_Row<TData>) => Record<string, unknown>;
+  }
+) => {
+  const copied = Object.fromEntries(
+    table
+    .getAllLeafColumns()
+    .filter((column) => column.columnDef.columnDefType === 'data' && !omit.includes(column.id))
+    .map((column) => [column.id, row.getValue(column.id)])
+  );
+  const values = transform ? transform(copied, row) : copied;
+
+  const creatingRow = createRow(table);
+  Object.assign(creatingRow._valuesCache, values);
+  recomputeEditingRow(table, creatingRow);
+
+  const store = getEditRowStore(table);
+  store.claimRow(creatingRow.id, creatingRow);
+  store.setRow(creatingRow.id, (prev) => ({...prev, clonedFrom: row.id}));
+  table.setCreatingRow(creatingRow);
+};
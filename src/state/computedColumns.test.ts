@@ -0,0 +1,53 @@
+import {describe, expect, it, vi} from 'vitest';
+import type {MRT_Row, MRT_TableInstance} from 'material-react-table';
+import {recomputeEditingRow} from './computedColumns';
+
+type Line = { price: number; quantity: number; total: number; totalCents: number; note: string };
+
+/**
+ * A table with `total` computed from price and quantity, and `totalCents` from `total`
+ */
+const setup = (values: Partial<Line>) => {
+  const total = vi.fn(({values}: { values: Line }) => values.price * values.quantity);
+  const row = {id: 'row-1', _valuesCache: {price: 2, quantity: 3, total: 6, totalCents: 600, note: '', ...values}} as unknown as MRT_Row<Line>;
+  const table = {
+    getAllLeafColumns: () => [
+      {id: 'price', columnDef: {}},
+      {id: 'quantity', columnDef: {}},
+      {id: 'note', columnDef: {}},
+      {id: 'total', columnDef: {computed: {deps: ['price', 'quantity'], compute: total}}},
+      {id: 'totalCents', columnDef: {computed: {deps: ['total'], compute: ({values}: { values: Line }) => values.total * 100}}},
+    ],
+  } as unknown as MRT_TableInstance<Line>;
+  return {row, table, total};
+};
+
+describe('recomputeEditingRow', () => {
+  it('recalculates dependants in definition order and reports the changed columns', () => {
+    const {row, table} = setup({quantity: 5});
+
+    expect(recomputeEditingRow(table, row, ['quantity'])).toEqual(['total', 'totalCents']);
+    expect(row._valuesCache).toMatchObject({total: 10, totalCents: 1000});
+  });
+
+  it('skips computed columns whose deps did not change', () => {
+    const {row, table, total} = setup({note: 'rush'});
+
+    expect(recomputeEditingRow(table, row, ['note'])).toEqual([]);
+    expect(total).not.toHaveBeenCalled();
+  });
+
+  it('recalculates every computed column when no change is given', () => {
+    const {row, table} = setup({total: 0, totalCents: 0});
+
+    expect(recomputeEditingRow(table, row)).toEqual(['total', 'totalCents']);
+    expect(row._valuesCache).toMatchObject({total: 6, totalCents: 600});
+  });
+
+  it('leaves a computed column alone when it is the one that changed', () => {
+    const {row, table} = setup({total: 100});
+
+    recomputeEditingRow(table, row, ['total']);
+    expect(row._valuesCache).toMatchObject({total: 100, totalCents: 10000});
+  });
+});
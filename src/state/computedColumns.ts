@@ -0,0 +1,39 @@
+// src/state/computedColumns.ts
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import {isSameValue} from './dirtyTracking';
+
+/**
+ * Recalculates the row's `computed` columns that depend on the changed columns
+ *
+ * Columns are visited in definition order, so a computed column may depend on an earlier one.
+ * The values are written straight into row._valuesCache, outside the undo history.
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being edited or created
+ * @param changedColumnIds - The columns that changed (all computed columns are recalculated when omitted)
+ * @returns The ids of the computed columns whose value changed
+ */
+export const recomputeEditingRow = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>,
+  changedColumnIds?: string[]
+) => {
+  const changed = new Set(changedColumnIds);
+  const recomputed: string[] = [];
+  const values = row._valuesCache as Record<string, unknown>;
+  table
+  .getAllLeafColumns()
+  .forEach((column) => {
+    const {computed} = column.columnDef;
+    if (!computed || changed.has(column.id)) return;
+    if (changedColumnIds && computed.deps && !computed.deps.some((id) => changed.has(id))) return;
+    const value = computed.compute({values, row, table});
+    if (!isSameValue(value, values[column.id])) {
+      values[column.id] = value;
+      changed.add(column.id);
+      recomputed.push(column.id);
+    }
+  });
+  return recomputed;
+};
@@ -0,0 +1,51 @@
+import {describe, expect, it} from 'vitest';
+import type {MRT_Row, MRT_TableInstance} from 'material-react-table';
+import {getDirtyFields} from './dirtyTracking';
+import {getEditRowStore} from './editRowStore';
+
+type Person = { name: string; tags: string[]; note: string | null; initials: string };
+
+const setup = (values: Partial<Person>) => {
+  const original: Person = {name: 'Ada', tags: ['math'], note: null, initials: 'A'};
+  const row = {id: 'row-1', original, _valuesCache: {...original, ...values}} as unknown as MRT_Row<Person>;
+  const table = {
+    getAllLeafColumns: () => [
+      {id: 'mrt-row-actions', columnDef: {columnDefType: 'display'}},
+      {id: 'name', columnDef: {columnDefType: 'data'}},
+      {id: 'tags', columnDef: {columnDefType: 'data'}},
+      {id: 'note', columnDef: {columnDefType: 'data'}},
+      {id: 'initials', columnDef: {columnDefType: 'data', computed: {compute: () => 'X'}}},
+    ],
+  } as unknown as MRT_TableInstance<Person>;
+  return {row, table};
+};
+
+describe('getDirtyFields', () => {
+  it('lists only the columns that differ from row.original', () => {
+    const {row, table} = setup({name: 'Adam'});
+
+    expect(getDirtyFields(table, row)).toEqual({name: true});
+  });
+
+  it('treats empty values as equal and compares arrays by content', () => {
+    const {row, table} = setup({note: '', tags: ['math']});
+
+    expect(getDirtyFields(table, row)).toEqual({});
+  });
+
+  it('never reports computed columns', () => {
+    const {row, table} = setup({initials: 'AL'});
+
+    expect(getDirtyFields(table, row)).toEqual({});
+  });
+
+  it('compares a bulk edit against the values the rows shared', () => {
+    const {row, table} = setup({name: 'Ada', tags: ['physics']});
+    getEditRowStore(table).setRow(row.id, (prev) => ({
+      ...prev,
+      bulk: {rowIds: ['1', '2'], values: {name: undefined, tags: ['physics'], note: null}, mixed: ['name']},
+    }));
+
+    expect(getDirtyFields(table, row)).toEqual({name: true});
+  });
+});
@@ -0,0 +1,71 @@
+// src/state/dirtyTracking.ts
+import type {MRT_Column, MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import {getEditRowStore} from './editRowStore';
+
+/**
+ * Normalizes a value for dirty comparison: empty values are all the same
+ * @private
+ */
+const normalizeForCompare = (value: unknown) =>
+  value === null || value === undefined || value === '' ? null : value;
+
+/**
+ * Checks if two row values are equal for dirty tracking purposes
+ *
+ * Empty values (null, undefined and '') are equal to each other;
+ * arrays and objects are compared structurally.
+ */
+export const isSameValue = (a: unknown, b: unknown) => {
+  const left = normalizeForCompare(a);
+  const right = normalizeForCompare(b);
+  if (Object.is(left, right)) return true;
+  if (typeof left !== 'object' || typeof right !== 'object' || left === null || right === null) return false;
+  try {
+    return JSON.stringify(left) === JSON.stringify(right);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Gets the original (pre-edit) value of a column for a row
+ *
+ * @template TData - The data type for the table row
+ * @param column - The column
+ * @param row - The row being edited or created
+ */
+export const getOriginalValue = <TData extends MRT_RowData>(column: MRT_Column<TData>, row: MRT_Row<TData>) =>
+  column.accessorFn
+    ? column.accessorFn(row.original, row.index)
+    : (row.original as Record<string, unknown>)[column.id];
+
+/**
+ * Gets which columns of an editing row differ from `row.original`
+ * (or, for a bulk edit, from the values the rows shared when it started)
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being edited or created
+ * @returns Map of column id to whether it was changed (only changed columns are included)
+ */
+export const getDirtyFields = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>
+): Record<string, boolean> => {
+  const values = row._valuesCache as Record<string, unknown>;
+  const dirtyFields: Record<string, boolean> = {};
+  const bulk = getEditRowStore(table).getRow(row.id).bulk;
+
+  table
+  .getAllLeafColumns()
+  // Computed columns follow the other fields, they are never changed by the user
+  .filter((column) =>
+    column.columnDef.columnDefType === 'data' && !column.columnDef.computed && Object.hasOwn(values, column.id)
+  )
+  .forEach((column) => {
+    const original = bulk ? bulk.values[column.id] : getOriginalValue(column, row);
+    if (!isSameValue(values[column.id], original)) dirtyFields[column.id] = true;
+  });
+
+  return dirtyFields;
+};
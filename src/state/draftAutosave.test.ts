@@ -0,0 +1,139 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import type {MRT_Row, MRT_TableInstance} from 'material-react-table';
+import {clearDraft, readDraft, scheduleDraftSave} from './draftAutosave';
+import {createMemoryDraftStorage, type MRT_DraftOptions} from '../drafts';
+import {cancelEditingRow} from '../utils';
+
+type Person = { name: string };
+
+const DRAFT_KEY = 'mrt-draft:people:row-1';
+
+/**
+ * A table editing one row, with drafts kept in a spied in-memory storage
+ */
+const setup = (drafts: Omit<MRT_DraftOptions, 'storage'> = {}) => {
+  const storage = createMemoryDraftStorage();
+  vi.spyOn(storage, 'setItem');
+  vi.spyOn(storage, 'removeItem');
+  const row = {id: 'row-1', original: {name: 'Ada'}, _valuesCache: {name: 'Ada'}} as unknown as MRT_Row<Person>;
+  const table = {
+    options: {id: 'people', drafts: {storage, debounceMs: 1000, ...drafts}},
+    getState: () => ({editingRow: row, creatingRow: null}),
+    setEditingRow: vi.fn(),
+    getAllLeafColumns: () => [{id: 'name', columnDef: {columnDefType: 'data'}}],
+  } as unknown as MRT_TableInstance<Person>;
+  const edit = (name: string) => {
+    row._valuesCache.name = name;
+    scheduleDraftSave(table, row);
+  };
+  return {storage, row, table, edit};
+};
+
+describe('scheduleDraftSave', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('writes the draft once the debounce delay has passed', () => {
+    const {storage, edit} = setup();
+
+    edit('Ad');
+    vi.advanceTimersByTime(500);
+    edit('Adam');
+    vi.advanceTimersByTime(999);
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(storage.getItem(DRAFT_KEY)!).values).toEqual({name: 'Adam'});
+  });
+
+  it('removes the draft once the row is no longer dirty', () => {
+    const {storage, edit} = setup();
+
+    edit('Adam');
+    vi.advanceTimersByTime(1000);
+    edit('Ada');
+    vi.advanceTimersByTime(1000);
+
+    expect(storage.removeItem).toHaveBeenCalledWith(DRAFT_KEY);
+    expect(storage.getItem(DRAFT_KEY)).toBeNull();
+  });
+
+  it('skips rows that are not being created or edited', () => {
+    const {storage, table} = setup();
+    const other = {id: 'row-2', original: {name: 'Bob'}, _valuesCache: {name: 'Rob'}} as unknown as MRT_Row<Person>;
+
+    scheduleDraftSave(table, other);
+    vi.advanceTimersByTime(1000);
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+});
+
+describe('readDraft', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('returns a draft within its expiry', () => {
+    const {row, table, edit} = setup({expiresIn: 60_000});
+
+    edit('Adam');
+    vi.advanceTimersByTime(1000);
+    expect(readDraft(table, row.id)?.values).toEqual({name: 'Adam'});
+  });
+
+  it('deletes an expired draft', () => {
+    const {storage, row, table, edit} = setup({expiresIn: 60_000});
+
+    edit('Adam');
+    vi.advanceTimersByTime(1000);
+    vi.advanceTimersByTime(60_001);
+
+    expect(readDraft(table, row.id)).toBeUndefined();
+    expect(storage.getItem(DRAFT_KEY)).toBeNull();
+  });
+
+  it('ignores drafts when the table has drafts off', () => {
+    const {storage, row, table} = setup();
+    storage.setItem(DRAFT_KEY, JSON.stringify({values: {name: 'Adam'}, savedAt: Date.now()}));
+    table.options.drafts = false;
+
+    expect(readDraft(table, row.id)).toBeUndefined();
+  });
+});
+
+describe('clearDraft', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('deletes the stored draft when the row is saved', () => {
+    const {storage, row, table, edit} = setup();
+
+    edit('Adam');
+    vi.advanceTimersByTime(1000);
+    clearDraft(table, row.id);
+
+    expect(storage.getItem(DRAFT_KEY)).toBeNull();
+  });
+
+  it('drops a write still waiting for its debounce', () => {
+    const {storage, row, table, edit} = setup();
+
+    edit('Adam');
+    clearDraft(table, row.id);
+    vi.advanceTimersByTime(1000);
+
+    expect(storage.setItem).not.toHaveBeenCalled();
+    expect(readDraft(table, row.id)).toBeUndefined();
+  });
+
+  it('deletes the draft when editing is cancelled', () => {
+    const {storage, row, table, edit} = setup();
+
+    edit('Adam');
+    vi.advanceTimersByTime(1000);
+    cancelEditingRow({table, row});
+
+    expect(table.setEditingRow).toHaveBeenCalledWith(null);
+    expect(storage.getItem(DRAFT_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+// src/state/draftAutosave.ts
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import type {RTV} from '../components';
+import {getEditRowStore} from './editRowStore';
+import {getDirtyFields, isSameValue} from './dirtyTracking';
+import {setEditingRowValue} from './editHistory';
+import {validateEditingCell} from '../utils';
+import type {MRT_Draft} from '../drafts';
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+const DEFAULT_EXPIRES_IN = 7 * 24 * 60 * 60 * 1000;
+
+// table -> row id -> pending draft write
+const timers = new WeakMap<object, Map<string, ReturnType<typeof setTimeout>>>();
+
+/**
+ * Resolves the table's `drafts` option, or undefined when drafts are off (or there is no storage)
+ * @private
+ */
+const getDraftSettings = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>) => {
+  const {drafts} = table.options;
+  if (!drafts) return undefined;
+  const options = drafts === true ? {} : drafts;
+  const storage = options.storage ?? (typeof localStorage === 'undefined' ? undefined : localStorage);
+  if (!storage) return undefined;
+  return {
+    storage,
+    debounceMs: options.debounceMs ?? DEFAULT_DEBOUNCE_MS,
+    expiresIn: options.expiresIn ?? DEFAULT_EXPIRES_IN,
+  };
+};
+
+/**
+ * Storage key of a row's draft: the table id and the row id
+ * @private
+ */
+const getDraftKey = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>, rowId: string) =>
+  `mrt-draft:${table.options.id}:${rowId}`;
+
+const getRowTimers = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>) => {
+  let rows = timers.get(table);
+  if (!rows) timers.set(table, rows = new Map());
+  return rows;
+};
+
+/**
+ * Schedules a (debounced) draft write of a creating or editing row, when the table has `drafts` on
+ *
+ * The values are taken right away, so a row closed before the write still gets its draft.
+ * A row without changes deletes its draft instead. Bulk edits are not drafted.
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row whose values changed
+ */
+export const scheduleDraftSave = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>, row: MRT_Row<TData>) => {
+  const settings = getDraftSettings(table);
+  if (!settings || row.id === 'mrt-row-bulk') return;
+  const {creatingRow, editingRow} = table.getState();
+  if (creatingRow?.id !== row.id && editingRow?.id !== row.id) return;
+
+  const key = getDraftKey(table, row.id);
+  const draft: MRT_Draft = {values: {...row._valuesCache}, savedAt: Date.now()};
+  const isDirty = Object.keys(getDirtyFields(table, row)).length > 0;
+
+  const rows = getRowTimers(table);
+  clearTimeout(rows.get(row.id));
+  rows.set(row.id, setTimeout(() => {
+    rows.delete(row.id);
+    try {
+      if (isDirty) settings.storage.setItem(key, JSON.stringify(draft));
+      else settings.storage.removeItem(key);
+    } catch {
+      // A full or unavailable storage only costs the draft
+    }
+  }, settings.debounceMs));
+};
+
+/**
+ * Reads the draft of a row, deleting it when it has expired
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param rowId - The id of the row
+ * @returns The draft, or undefined when there is none (or drafts are off)
+ */
+export const readDraft = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>, rowId: string) => {
+  const settings = getDraftSettings(table);
+  if (!settings) return undefined;
+  const key = getDraftKey(table, rowId);
+  try {
+    const stored = settings.storage.getItem(key);
+    if (!stored) return undefined;
+    const draft = JSON.parse(stored) as MRT_Draft;
+    if (Date.now() - draft.savedAt <= settings.expiresIn) return draft;
+    settings.storage.removeItem(key);
+  } catch {
+    // Unreadable drafts are ignored
+  }
+  return undefined;
+};
+
+/**
+ * Deletes the draft of a row, including a write still waiting for its debounce
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param rowId - The id of the row
+ */
+export const clearDraft = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>, rowId: string) => {
+  const rows = getRowTimers(table);
+  clearTimeout(rows.get(rowId));
+  rows.delete(rowId);
+  try {
+    getDraftSettings(table)?.storage.removeItem(getDraftKey(table, rowId));
+  } catch {
+    // Nothing to clean up
+  }
+};
+
+/**
+ * Writes a draft's values back into a creating or editing row
+ *
+ * Each restored value goes through setEditingRowValue, so it can be undone, and is validated.
+ * Values of columns the table no longer has are ignored.
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ * @param draft - The draft to restore (see `readDraft`)
+ */
+export const applyDraft = <TData extends MRT_RowData>(
+  {table, row}: Pick<RTV<TData>, 'row' | 'table'>,
+  draft: MRT_Draft
+) => {
+  const cells = row.getAllCells().filter(({column}) =>
+    Object.hasOwn(draft.values, column.id) && !isSameValue(row._valuesCache[column.id], draft.values[column.id]));
+  cells.forEach(({column}) => setEditingRowValue(table, row, column.id, draft.values[column.id]));
+  // The editors re-read their values
+  getEditRowStore(table).setRow(row.id, (prev) => ({...prev, externalRevision: prev.externalRevision + 1}));
+  cells.forEach((cell) => validateEditingCell(table, cell));
+
+  const {creatingRow, editingRow} = table.getState();
+  if (creatingRow?.id === row.id) table.setCreatingRow(row);
+  else if (editingRow?.id === row.id) table.setEditingRow(row);
+};
@@ -0,0 +1,84 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import type {MRT_Row, MRT_TableInstance} from 'material-react-table';
+import {redoEditingRow, setEditingRowValue, undoEditingRow} from './editHistory';
+
+type Person = { first: string; last: string; fullName: string };
+
+/**
+ * A table editing one row, with a computed column following the name fields
+ */
+const setup = () => {
+  const original: Person = {first: 'Ada', last: 'King', fullName: 'Ada King'};
+  const row = {
+    id: 'row-1',
+    original,
+    _valuesCache: {...original},
+    getAllCells: () => [],
+  } as unknown as MRT_Row<Person>;
+  const table = {
+    options: {},
+    getState: () => ({editingRow: row, creatingRow: null}),
+    setEditingRow: vi.fn(),
+    setCreatingRow: vi.fn(),
+    getAllLeafColumns: () => [
+      {id: 'first', columnDef: {columnDefType: 'data'}},
+      {id: 'last', columnDef: {columnDefType: 'data'}},
+      {
+        id: 'fullName',
+        columnDef: {
+          columnDefType: 'data',
+          computed: {deps: ['first', 'last'], compute: ({values}: { values: Person }) => `${values.first} ${values.last}`},
+        },
+      },
+    ],
+  } as unknown as MRT_TableInstance<Person>;
+  const edit = (columnId: keyof Person, value: string) => {
+    setEditingRowValue(table, row, columnId, value);
+    vi.advanceTimersByTime(1000);
+  };
+  return {row, table, edit};
+};
+
+describe('undoEditingRow / redoEditingRow', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('steps back and forth through the changes', () => {
+    const {row, table, edit} = setup();
+
+    edit('first', 'Augusta');
+    edit('last', 'Lovelace');
+
+    expect(undoEditingRow({table, row})).toBe(true);
+    expect(row._valuesCache).toEqual({first: 'Augusta', last: 'King', fullName: 'Augusta King'});
+    expect(undoEditingRow({table, row})).toBe(true);
+    expect(row._valuesCache).toEqual({first: 'Ada', last: 'King', fullName: 'Ada King'});
+    expect(undoEditingRow({table, row})).toBe(false);
+
+    expect(redoEditingRow({table, row})).toBe(true);
+    expect(row._valuesCache.first).toBe('Augusta');
+    expect(table.setEditingRow).toHaveBeenCalledWith(row);
+  });
+
+  it('merges quick changes to the same column into one step', () => {
+    const {row, table} = setup();
+
+    setEditingRowValue(table, row, 'first', 'A');
+    vi.advanceTimersByTime(200);
+    setEditingRowValue(table, row, 'first', 'Al');
+
+    undoEditingRow({table, row});
+    expect(row._valuesCache.first).toBe('Ada');
+  });
+
+  it('drops the redo steps once a new change is made', () => {
+    const {row, table, edit} = setup();
+
+    edit('first', 'Augusta');
+    undoEditingRow({table, row});
+    edit('last', 'Lovelace');
+
+    expect(redoEditingRow({table, row})).toBe(false);
+    expect(row._valuesCache.first).toBe('Ada');
+  });
+});
@@ -0,0 +1,143 @@
+// src/state/editHistory.ts
+import type {KeyboardEvent as ReactKeyboardEvent} from 'react';
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import type {RTV} from '../components';
+import {getEditRowStore, type MRT_EditHistory, type MRT_EditHistoryEntry} from './editRowStore';
+import {isSameValue} from './dirtyTracking';
+import {scheduleDraftSave} from './draftAutosave';
+import {recomputeEditingRow} from './computedColumns';
+import {validateEditingCell} from '../utils';
+
+/** Maximum number of undo steps kept per row */
+const EDIT_HISTORY_LIMIT = 100;
+
+/** Changes to the same column within this window are merged into one undo step (e.g. typing) */
+const EDIT_HISTORY_MERGE_MS = 1000;
+
+/**
+ * Adds a change to a row's undo history, clearing the redo stack
+ * @private
+ */
+const recordEditHistory = (history: MRT_EditHistory, entry: MRT_EditHistoryEntry): MRT_EditHistory => {
+  const last = history.past[history.past.length - 1];
+  const past = last?.columnId === entry.columnId && entry.timestamp - last.timestamp < EDIT_HISTORY_MERGE_MS
+    ? [...history.past.slice(0, -1), {...entry, previous: last.previous}]
+    : [...history.past, entry];
+  return {past: past.slice(-EDIT_HISTORY_LIMIT), future: []};
+};
+
+/**
+ * Writes a value into the editing row's values cache
+ *
+ * Every edit component funnels its writes through here, so the kit's row state
+ * (dirty tracking, undo history, etc.) is notified of each change.
+ * Computed columns depending on the column are recalculated, and a draft write is scheduled (see `drafts`).
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being edited or created
+ * @param columnId - The column id (key in row._valuesCache)
+ * @param value - The value to store
+ */
+export const setEditingRowValue = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>,
+  columnId: string,
+  value: unknown
+) => {
+  const previous = row._valuesCache[columnId];
+  //@ts-expect-error row._valuesCache is keyed by column.id
+  row._valuesCache[columnId] = value;
+  recomputeEditingRow(table, row, [columnId]);
+  getEditRowStore(table).setRow(row.id, (prev) => ({
+    ...prev,
+    revision: prev.revision + 1,
+    history: isSameValue(previous, value)
+      ? prev.history
+      : recordEditHistory(prev.history, {columnId, previous, next: value, timestamp: Date.now()}),
+  }));
+  scheduleDraftSave(table, row);
+};
+
+/**
+ * Steps through a row's edit history, writing the restored value back into row._valuesCache
+ * @private
+ */
+const stepEditHistory = <TData extends MRT_RowData>(
+  {table, row}: Pick<RTV<TData>, 'row' | 'table'>,
+  direction: 'undo' | 'redo'
+) => {
+  const store = getEditRowStore(table);
+  const {past, future} = store.getRow(row.id).history;
+  const entry = direction === 'undo' ? past[past.length - 1] : future[future.length - 1];
+  if (!entry) return false;
+
+  //@ts-expect-error row._valuesCache is keyed by column.id
+  row._valuesCache[entry.columnId] = direction === 'undo' ? entry.previous : entry.next;
+  recomputeEditingRow(table, row, [entry.columnId]);
+  store.setRow(row.id, (prev) => ({
+    ...prev,
+    revision: prev.revision + 1,
+    externalRevision: prev.externalRevision + 1,
+    history: direction === 'undo'
+      ? {past: past.slice(0, -1), future: [...future, entry]}
+      : {past: [...past, entry], future: future.slice(0, -1)},
+  }));
+  scheduleDraftSave(table, row);
+
+  const cell = row.getAllCells().find((c) => c.column.id === entry.columnId);
+  if (cell) validateEditingCell(table, cell);
+
+  const {creatingRow, editingRow} = table.getState();
+  if (creatingRow?.id === row.id) table.setCreatingRow(row);
+  else if (editingRow?.id === row.id) table.setEditingRow(row);
+  return true;
+};
+
+/**
+ * Reverts the most recent value change of an editing row
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ * @returns Whether there was a change to undo
+ */
+export const undoEditingRow = <TData extends MRT_RowData>(options: Pick<RTV<TData>, 'row' | 'table'>) =>
+  stepEditHistory(options, 'undo');
+
+/**
+ * Re-applies the most recently undone value change of an editing row
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ * @returns Whether there was a change to redo
+ */
+export const redoEditingRow = <TData extends MRT_RowData>(options: Pick<RTV<TData>, 'row' | 'table'>) =>
+  stepEditHistory(options, 'redo');
+
+/**
+ * Creates a keydown handler for Ctrl+Z (undo) and Ctrl+Shift+Z / Ctrl+Y (redo), Cmd on macOS
+ *
+ * The focused input is blurred first, so its pending text is committed (and recorded) before stepping.
+ *
+ * @example
+ * ```tsx
+ * // cell editing mode
+ * muiTableBodyCellProps: ({row, table}) => ({onKeyDown: getEditHistoryKeyDownHandler({table, row})}),
+ * ```
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ * @returns A keydown event handler
+ */
+export const getEditHistoryKeyDownHandler = <TData extends MRT_RowData>(
+  options: Pick<RTV<TData>, 'row' | 'table'>
+) => (event: ReactKeyboardEvent) => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+  const key = event.key.toLowerCase();
+  const direction = key === 'z' ? (event.shiftKey ? 'redo' : 'undo') : key === 'y' ? 'redo' : undefined;
+  if (!direction) return;
+
+  event.preventDefault();
+  if (document.activeElement instanceof HTMLElement) document.activeElement.blur();
+  stepEditHistory(options, direction);
+};
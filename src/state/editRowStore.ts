@@ -0,0 +1,151 @@
+// src/state/editRowStore.ts
+import {useCallback, useSyncExternalStore} from 'react';
+import type {MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import type {MRT_ValidationErrors, MRT_ValidationPending} from '../validation';
+import type {MRT_BulkEditState} from '../bulkEdit';
+
+/**
+ * A single recorded value change of an editing row
+ */
+export interface MRT_EditHistoryEntry {
+  /** The column that changed */
+  columnId: string;
+  /** Value before the change */
+  previous: unknown;
+  /** Value after the change */
+  next: unknown;
+  /** When the change was recorded (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Undo/redo stacks of an editing row
+ */
+export interface MRT_EditHistory {
+  /** Changes that can be undone, oldest first */
+  past: MRT_EditHistoryEntry[];
+  /** Undone changes that can be redone, most recently undone last */
+  future: MRT_EditHistoryEntry[];
+}
+
+/**
+ * Per-row editing state kept by MRT-UI-Kit next to MRT's own table state.
+ *
+ * MRT only tracks the row values (row._valuesCache); everything else the kit
+ * needs while a row is being edited lives here, keyed by row id.
+ */
+export interface MRT_RowEditState {
+  /** Validation error messages keyed by column id */
+  errors: MRT_ValidationErrors;
+  /** Columns with an async validation in flight */
+  pending: MRT_ValidationPending;
+  /** Incremented on every value written through setEditingRowValue (or recalculated as the dialog opens) */
+  revision: number;
+  /** Whether the "Discard changes?" confirmation is open */
+  confirmingDiscard: boolean;
+  /** What confirming the discard does instead of closing the row (e.g. moving to another record) */
+  discardAction?: () => void;
+  /** Undo/redo history of value changes */
+  history: MRT_EditHistory;
+  /**
+   * Incremented when values are written from outside the edit components (e.g. undo/redo),
+   * telling the components to re-read their value from row._valuesCache
+   */
+  externalRevision: number;
+  /** Current step of MRT_EditDialog's create wizard */
+  wizardStep: number;
+  /** Baseline of a bulk edit (only set for the `mrt-row-bulk` row) */
+  bulk?: MRT_BulkEditState;
+  /** Id of the row a creating row was duplicated from (see `setCloningRow`) */
+  clonedFrom?: string;
+}
+
+type Listener = () => void;
+
+/**
+ * A tiny external store holding MRT_RowEditState per row id
+ * @private
+ */
+interface EditRowStore {
+  getRow: (rowId: string) => MRT_RowEditState;
+  setRow: (rowId: string, update: (prev: MRT_RowEditState) => MRT_RowEditState) => void;
+  clearRow: (rowId: string) => void;
+  /**
+   * Ties a row id's state to one row instance, starting it over when another instance shows up,
+   * e.g. a new creating row under the shared 'mrt-row-create' id. Doesn't notify the subscribers.
+   */
+  claimRow: (rowId: string, instance: object) => void;
+  subscribe: (listener: Listener) => () => void;
+}
+
+const EMPTY_ROW_STATE: MRT_RowEditState = {
+  errors: {},
+  pending: {},
+  revision: 0,
+  confirmingDiscard: false,
+  history: {past: [], future: []},
+  externalRevision: 0,
+  wizardStep: 0,
+};
+
+const createEditRowStore = (): EditRowStore => {
+  const rows = new Map<string, MRT_RowEditState>();
+  const owners = new Map<string, object>();
+  const listeners = new Set<Listener>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    getRow: (rowId) => rows.get(rowId) ?? EMPTY_ROW_STATE,
+    setRow: (rowId, update) => {
+      rows.set(rowId, update(rows.get(rowId) ?? EMPTY_ROW_STATE));
+      notify();
+    },
+    clearRow: (rowId) => {
+      if (rows.delete(rowId)) notify();
+    },
+    claimRow: (rowId, instance) => {
+      if (owners.get(rowId) === instance) return;
+      owners.set(rowId, instance);
+      rows.delete(rowId);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+// One store per table instance, released together with the table
+const stores = new WeakMap<object, EditRowStore>();
+
+/**
+ * Gets (or lazily creates) the edit row store for a table instance
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ */
+export const getEditRowStore = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>) => {
+  let store = stores.get(table);
+  if (!store) {
+    store = createEditRowStore();
+    stores.set(table, store);
+  }
+  return store;
+};
+
+/**
+ * Subscribes a component to the editing state of a single row
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param rowId - The id of the row being edited
+ * @returns The current MRT_RowEditState for the row
+ */
+export const useRowEditState = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  rowId: string
+): MRT_RowEditState => {
+  const store = getEditRowStore(table);
+  const getSnapshot = useCallback(() => store.getRow(rowId), [store, rowId]);
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+};
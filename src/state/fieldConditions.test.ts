@@ -0,0 +1,47 @@
+import {describe, expect, it} from 'vitest';
+import type {MRT_Column, MRT_Row, MRT_TableInstance} from 'material-react-table';
+import {isFieldEnabled, isFieldVisible} from './fieldConditions';
+
+type Company = { type: 'person' | 'company'; vatId: string; locked: boolean };
+
+const table = {} as MRT_TableInstance<Company>;
+
+const createRow = (values: Partial<Company>) =>
+  ({id: 'row-1', original: values, _valuesCache: {...values}}) as unknown as MRT_Row<Company>;
+
+const createColumn = (columnDef: Record<string, unknown>) =>
+  ({id: 'vatId', columnDef: {columnDefType: 'data', ...columnDef}}) as unknown as MRT_Column<Company>;
+
+describe('isFieldVisible', () => {
+  it('shows fields without a condition', () => {
+    expect(isFieldVisible(table, createRow({}), createColumn({}))).toBe(true);
+  });
+
+  it('evaluates visibleWhen against the current values', () => {
+    const column = createColumn({visibleWhen: ({values}: { values: Company }) => values.type === 'company'});
+
+    expect(isFieldVisible(table, createRow({type: 'company'}), column)).toBe(true);
+    expect(isFieldVisible(table, createRow({type: 'person'}), column)).toBe(false);
+  });
+});
+
+describe('isFieldEnabled', () => {
+  it('enables fields without a condition', () => {
+    expect(isFieldEnabled(table, createRow({}), createColumn({}))).toBe(true);
+  });
+
+  it('evaluates enabledWhen against the current values', () => {
+    const column = createColumn({enabledWhen: ({values}: { values: Company }) => !values.locked});
+
+    expect(isFieldEnabled(table, createRow({locked: false}), column)).toBe(true);
+    expect(isFieldEnabled(table, createRow({locked: true}), column)).toBe(false);
+  });
+
+  it('disables computed fields and fields with enableEditing off', () => {
+    const row = createRow({});
+
+    expect(isFieldEnabled(table, row, createColumn({computed: {compute: () => ''}}))).toBe(false);
+    expect(isFieldEnabled(table, row, createColumn({enableEditing: false}))).toBe(false);
+    expect(isFieldEnabled(table, row, createColumn({enableEditing: () => false}))).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+// src/state/fieldConditions.ts
+import type {MRT_Column, MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import {parseFromValuesOrFunc} from 'material-react-table/src/utils/utils';
+
+/**
+ * Checks a column's `visibleWhen` condition against the row's current values
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being edited, created or viewed
+ * @param column - The column to check
+ * @returns False when the field is hidden
+ */
+export const isFieldVisible = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>,
+  column: MRT_Column<TData>
+) => column.columnDef.visibleWhen?.({values: row._valuesCache, row, table}) ?? true;
+
+/**
+ * Checks whether a field can be edited: not `computed`, `enableEditing` and `enabledWhen` against the row's current values
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being edited or created
+ * @param column - The column to check
+ * @returns False when the field is disabled
+ */
+export const isFieldEnabled = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>,
+  column: MRT_Column<TData>
+) => !column.columnDef.computed
+  && parseFromValuesOrFunc(column.columnDef.enableEditing, row) !== false
+  && (column.columnDef.enabledWhen?.({values: row._valuesCache, row, table}) ?? true);
@@ -1 +1,18 @@
-export * from "./XDateLocalizationProvider"
\ No newline at end of file
+export * from "./XDateLocalizationProvider"
+export * from "./editRowStore"
+export * from "./useCellValidation"
+export * from "./asyncValidation"
+export * from "./dirtyTracking"
+export * from "./useRowDirtyState"
+export * from "./useCellValueSync"
+export * from "./editHistory"
+export * from "./useEditHistory"
+export * from "./draftAutosave"
+export * from "./fieldConditions"
+export * from "./computedColumns"
+export * from "./recordNavigation"
+export * from "./bulkEditing"
+export * from "./cloneRow"
+export * from "./cellNavigation"
+export * from "./rowConflicts"
+export * from "./pendingDeletes"
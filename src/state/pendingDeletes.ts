@@ -0,0 +1,172 @@
+// src/state/pendingDeletes.ts
+import {useSyncExternalStore} from 'react';
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+
+/**
+ * A delete waiting for its undo window to end
+ *
+ * @template TData - The data type for the table row
+ */
+export interface MRT_PendingRowDelete<TData extends MRT_RowData = MRT_RowData> {
+  /** The id returned by `scheduleRowDelete` */
+  batchId: number;
+  /** The rows to delete */
+  rows: MRT_Row<TData>[];
+}
+
+/**
+ * A pending delete with the timer committing it
+ * @private
+ */
+interface PendingDelete extends MRT_PendingRowDelete {
+  timer: ReturnType<typeof setTimeout>;
+}
+
+type Listener = () => void;
+
+/**
+ * Pending deletes of one table, with the deletes and the ids of their rows as immutable snapshots
+ * @private
+ */
+interface PendingDeleteStore {
+  batches: Map<number, PendingDelete>;
+  deletes: readonly MRT_PendingRowDelete[];
+  rowIds: ReadonlySet<string>;
+  listeners: Set<Listener>;
+  subscribe: (listener: Listener) => () => void;
+}
+
+// One store per table instance, released together with the table
+const stores = new WeakMap<object, PendingDeleteStore>();
+let nextBatchId = 0;
+
+const getStore = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>) => {
+  let store = stores.get(table);
+  if (!store) {
+    const listeners = new Set<Listener>();
+    store = {
+      batches: new Map(),
+      deletes: [],
+      rowIds: new Set(),
+      listeners,
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    };
+    stores.set(table, store);
+  }
+  return store;
+};
+
+/**
+ * Rebuilds the snapshots and notifies the subscribers
+ * @private
+ */
+const notify = (store: PendingDeleteStore) => {
+  store.deletes = [...store.batches.values()].map(({batchId, rows}) => ({batchId, rows}));
+  store.rowIds = new Set(store.deletes.flatMap(({rows}) => rows.map(({id}) => id)));
+  store.listeners.forEach((listener) => listener());
+};
+
+/**
+ * Schedules a delete that is committed once its undo window ends, unless it is undone first
+ *
+ * The delete belongs to the table rather than to the component that started it,
+ * so it still waits out its window (and can't be committed early) when that component unmounts.
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param rows - The rows to delete
+ * @param undoTimeout - Undo window in ms
+ * @param commit - Deletes the rows for real
+ * @returns The id of the pending delete, for `undoRowDelete`
+ */
+export const scheduleRowDelete = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  rows: MRT_Row<TData>[],
+  undoTimeout: number,
+  commit: (rows: MRT_Row<TData>[]) => void
+) => {
+  const store = getStore(table);
+  const batchId = nextBatchId++;
+  store.batches.set(batchId, {
+    batchId,
+    rows: rows as MRT_Row<MRT_RowData>[],
+    timer: setTimeout(() => {
+      store.batches.delete(batchId);
+      notify(store);
+      commit(rows);
+    }, undoTimeout),
+  });
+  notify(store);
+  return batchId;
+};
+
+/**
+ * Cancels a pending delete, so its rows stay
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param batchId - The id returned by `scheduleRowDelete`
+ */
+export const undoRowDelete = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>, batchId: number) => {
+  const store = getStore(table);
+  const batch = store.batches.get(batchId);
+  if (!batch) return;
+  clearTimeout(batch.timer);
+  store.batches.delete(batchId);
+  notify(store);
+};
+
+/**
+ * Whether a pending delete is still in its undo window
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param batchId - The id returned by `scheduleRowDelete`
+ */
+export const isRowDeleteBatchPending = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>, batchId: number) =>
+  getStore(table).batches.has(batchId);
+
+/**
+ * Whether a row is deleted but still in its undo window, e.g. to hide it from the table
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param rowId - The id of the row
+ */
+export const isRowDeletePending = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>, rowId: string) =>
+  getStore(table).rowIds.has(rowId);
+
+/**
+ * Subscribes a component to the rows whose delete is waiting for its undo window
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @returns The ids of the pending rows
+ *
+ * @example
+ * ```tsx
+ * const pendingRowIds = usePendingDeleteRowIds(table);
+ * // muiTableBodyRowProps: ({row}) => ({sx: pendingRowIds.has(row.id) ? {display: 'none'} : {}})
+ * ```
+ */
+export const usePendingDeleteRowIds = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>) => {
+  const store = getStore(table);
+  const getSnapshot = () => store.rowIds;
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+};
+
+/**
+ * Subscribes a component to the deletes waiting for their undo window, e.g. to offer undoing them
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @returns The pending deletes, oldest first
+ */
+export const usePendingRowDeletes = <TData extends MRT_RowData>(table: MRT_TableInstance<TData>) => {
+  const store = getStore(table);
+  const getSnapshot = () => store.deletes as readonly MRT_PendingRowDelete<TData>[];
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+};
@@ -0,0 +1,79 @@
+// src/state/recordNavigation.ts
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import type {RTV} from '../components';
+import {getEditRowStore} from './editRowStore';
+import {getDirtyFields} from './dirtyTracking';
+import {clearEditingRowState, setViewingRow} from '../utils';
+
+/**
+ * Switches a row opened with `setViewingRow` into edit mode, in the same dialog
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and the viewed row
+ */
+export const editViewingRow = <TData extends MRT_RowData>(
+  {table, row}: Pick<RTV<TData>, 'row' | 'table'>
+) => {
+  const source = getSourceRow(table, row);
+  if (source) table.setEditingRow(source);
+};
+
+/**
+ * Finds the table row a viewed row was copied from (`setViewingRow` replaces the row id)
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being viewed or edited
+ * @returns The table row, or undefined when it is no longer in the table
+ */
+export const getSourceRow = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>
+): MRT_Row<TData> | undefined =>
+  table.getCoreRowModel().flatRows.find((candidate) => candidate.original === row.original) as MRT_Row<TData> | undefined;
+
+/**
+ * Gets the records of the table's current sorted and filtered row model (across all pages),
+ * with the position of a viewed or edited row among them
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being viewed or edited
+ * @returns The records, and the row's index (-1 when filtered out)
+ */
+export const getRecordPosition = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>
+) => {
+  const records = table.getPrePaginationRowModel().flatRows
+  .filter((candidate) => !candidate.getIsGrouped()) as MRT_Row<TData>[];
+  return {records, index: records.findIndex((candidate) => candidate.original === row.original)};
+};
+
+/**
+ * Moves the open dialog from one record to another, keeping the mode (view or edit)
+ *
+ * In edit mode, a row with unsaved changes asks "Discard changes?" first; the row's edits are dropped on the way.
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ * @param target - The table row to move to
+ */
+export const moveEditingRow = <TData extends MRT_RowData>(
+  {table, row}: Pick<RTV<TData>, 'row' | 'table'>,
+  target: MRT_Row<TData>
+) => {
+  if (row.id === 'mrt-row-view') {
+    setViewingRow({table, row: target});
+    return;
+  }
+  const move = () => {
+    row._valuesCache = {} as Record<string, unknown>; //reset values cache
+    clearEditingRowState(table, row.id);
+    table.setEditingRow(target);
+  };
+  const isDirty = Object.keys(getDirtyFields(table, row)).length > 0;
+  if (isDirty) {
+    getEditRowStore(table).setRow(row.id, (prev) => ({...prev, confirmingDiscard: true, discardAction: move}));
+  } else move();
+};
@@ -0,0 +1,51 @@
+import {describe, expect, it} from 'vitest';
+import type {MRT_Row, MRT_TableInstance} from 'material-react-table';
+import {getConflictingFields, resolveRowConflict} from './rowConflicts';
+
+type Person = { name: string; email: string; city: string; version: number };
+
+const ORIGINAL: Person = {name: 'Ada', email: 'ada@example.com', city: 'London', version: 1};
+
+/**
+ * A table editing one row, where someone else saved version 2 in the meantime
+ */
+const setup = (values: Partial<Person>) => {
+  const row = {id: 'row-1', original: ORIGINAL, _valuesCache: {...ORIGINAL, ...values}} as unknown as MRT_Row<Person>;
+  const table = {
+    options: {},
+    getState: () => ({editingRow: row, creatingRow: null}),
+    getAllLeafColumns: () => ['name', 'email', 'city', 'version'].map((id) => ({id, columnDef: {columnDefType: 'data'}})),
+  } as unknown as MRT_TableInstance<Person>;
+  const latest: Person = {...ORIGINAL, name: 'Augusta', city: 'Paris', version: 2};
+  return {row, table, latest};
+};
+
+describe('getConflictingFields', () => {
+  it('lists the saved fields that differ from the latest row, whichever side changed them', () => {
+    const {row, table, latest} = setup({name: 'Ada Lovelace', email: 'ada@lovelace.dev'});
+
+    expect(getConflictingFields(table, row, latest)).toEqual([
+      {columnId: 'name', mine: 'Ada Lovelace', theirs: 'Augusta', base: 'Ada'},
+      {columnId: 'email', mine: 'ada@lovelace.dev', theirs: 'ada@example.com', base: 'ada@example.com'},
+      {columnId: 'city', mine: 'London', theirs: 'Paris', base: 'London'},
+      {columnId: 'version', mine: 1, theirs: 2, base: 1},
+    ]);
+  });
+
+  it('ignores fields both sides changed the same way', () => {
+    const {row, table, latest} = setup({name: 'Augusta', city: 'Paris', version: 2});
+
+    expect(getConflictingFields(table, row, latest)).toEqual([]);
+  });
+});
+
+describe('resolveRowConflict', () => {
+  it('takes the chosen side of each field and the latest version', () => {
+    const {row, table, latest} = setup({name: 'Ada Lovelace', email: 'ada@lovelace.dev'});
+
+    const values = resolveRowConflict({table, row}, latest, {name: 'mine', city: 'theirs'});
+
+    expect(values).toEqual({name: 'Ada Lovelace', email: 'ada@lovelace.dev', city: 'Paris', version: 2});
+    expect(row._valuesCache.city).toBe('Paris');
+  });
+});
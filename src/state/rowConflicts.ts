@@ -0,0 +1,77 @@
+// src/state/rowConflicts.ts
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import type {RTV} from '../components';
+import type {MRT_ConflictChoices, MRT_ConflictField} from '../concurrency';
+import {getOriginalValue, isSameValue} from './dirtyTracking';
+import {setEditingRowValue} from './editHistory';
+import {getSubmitValues} from '../utils';
+
+/**
+ * Gets the version of a row's data compared by MRT_SubmitDialogButton's conflict check
+ *
+ * The field is the table's `versionField`, or else "version" when the data has one, or else "updatedAt".
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param data - The row data (row.original or the result of `getLatestRow`)
+ * @returns The version field and its value
+ */
+export const getRowVersion = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  data: TData
+) => {
+  const field = table.options.versionField ?? ('version' in data ? 'version' : 'updatedAt');
+  return {field, value: (data as Record<string, unknown>)[field]};
+};
+
+/**
+ * Gets the fields whose values about to be saved differ from the latest stored row
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being edited
+ * @param latest - The latest stored data of the row
+ * @returns The conflicting fields, with the saved, latest and original values
+ */
+export const getConflictingFields = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>,
+  latest: TData
+): MRT_ConflictField[] => {
+  const values = getSubmitValues(table, row);
+  return table
+  .getAllLeafColumns()
+  .filter((column) => Object.hasOwn(values, column.id))
+  .map((column) => ({
+    columnId: column.id,
+    mine: values[column.id],
+    theirs: getOriginalValue(column, {...row, original: latest}),
+    base: getOriginalValue(column, row),
+  }))
+  .filter(({mine, theirs}) => !isSameValue(mine, theirs));
+};
+
+/**
+ * Applies the chosen side of each conflicting field to an editing row
+ *
+ * Fields choosing "theirs" take the latest stored value; every other field keeps the edited value.
+ * The returned values carry the latest version, so a server-side version check accepts the resolved save.
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ * @param latest - The latest stored data of the row
+ * @param choices - The side to keep, by column id
+ * @returns The values to hand to onEditingRowSave
+ */
+export const resolveRowConflict = <TData extends MRT_RowData>(
+  {table, row}: Pick<RTV<TData>, 'row' | 'table'>,
+  latest: TData,
+  choices: MRT_ConflictChoices
+): Record<string, unknown> => {
+  getConflictingFields(table, row, latest)
+  .filter(({columnId}) => choices[columnId] === 'theirs')
+  .forEach(({columnId, theirs}) => setEditingRowValue(table, row, columnId, theirs));
+
+  const {field, value} = getRowVersion(table, latest);
+  return {...getSubmitValues(table, row), [field]: value};
+};
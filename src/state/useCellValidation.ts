@@ -0,0 +1,32 @@
+// src/state/useCellValidation.ts
+import type {MRT_Cell, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import {validateEditingCell} from '../utils';
+import {useRowEditState} from './editRowStore';
+
+/**
+ * Hook connecting an edit component to its column's validation rules
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing cell and table
+ * @returns The current error message and pending state for the cell, and a function to (re)validate it
+ *
+ * @example
+ * ```tsx
+ * const {error, validate} = useCellValidation({cell, table});
+ * <TextField error={!!error} helperText={error} onBlur={(e) => validate(e.target.value)} />
+ * ```
+ */
+export const useCellValidation = <TData extends MRT_RowData>(
+  {cell, table}: { cell: MRT_Cell<TData>; table: MRT_TableInstance<TData> }
+) => {
+  const {errors, pending} = useRowEditState(table, cell.row.id);
+
+  return {
+    /** The current error message, if any */
+    error: errors[cell.column.id],
+    /** Whether an async validation of the cell is in flight */
+    pending: !!pending[cell.column.id],
+    /** Validates the cell, optionally against a value not yet written to row._valuesCache */
+    validate: (value?: unknown) => validateEditingCell(table, cell, value),
+  };
+};
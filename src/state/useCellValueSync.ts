@@ -0,0 +1,31 @@
+// src/state/useCellValueSync.ts
+import {useEffect, useRef} from 'react';
+import type {MRT_Cell, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import {useRowEditState} from './editRowStore';
+
+/**
+ * Hook keeping an edit component's local value in sync with values written
+ * to row._valuesCache from outside the component (e.g. undo/redo)
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing cell and table
+ * @param onSync - Called with the cell's value from row._valuesCache after an outside write
+ *
+ * @example
+ * ```tsx
+ * const [value, setValue] = useState(() => cell.getValue<string>());
+ * useCellValueSync({cell, table}, (newValue) => setValue(newValue as string));
+ * ```
+ */
+export const useCellValueSync = <TData extends MRT_RowData>(
+  {cell, table}: { cell: MRT_Cell<TData>; table: MRT_TableInstance<TData> },
+  onSync: (value: unknown) => void
+) => {
+  const {externalRevision} = useRowEditState(table, cell.row.id);
+  const onSyncRef = useRef(onSync);
+  onSyncRef.current = onSync;
+
+  useEffect(() => {
+    if (externalRevision) onSyncRef.current(cell.row._valuesCache[cell.column.id]);
+  }, [externalRevision]);
+};
@@ -0,0 +1,34 @@
+// src/state/useEditHistory.ts
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import {redoEditingRow, undoEditingRow} from './editHistory';
+import {useRowEditState} from './editRowStore';
+
+/**
+ * Hook exposing the undo/redo history of an editing row
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ * @returns Whether undo/redo are available, and functions to perform them
+ *
+ * @example
+ * ```tsx
+ * const {canUndo, undo} = useEditHistory({table, row});
+ * <Button disabled={!canUndo} onClick={undo}>Undo</Button>
+ * ```
+ */
+export const useEditHistory = <TData extends MRT_RowData>(
+  {table, row}: { table: MRT_TableInstance<TData>; row: MRT_Row<TData> }
+) => {
+  const {history} = useRowEditState(table, row.id);
+
+  return {
+    /** Whether there is a change to undo */
+    canUndo: history.past.length > 0,
+    /** Whether there is an undone change to redo */
+    canRedo: history.future.length > 0,
+    /** Reverts the most recent change */
+    undo: () => undoEditingRow({table, row}),
+    /** Re-applies the most recently undone change */
+    redo: () => redoEditingRow({table, row}),
+  };
+};
@@ -0,0 +1,32 @@
+// src/state/useRowDirtyState.ts
+import type {MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+import {getDirtyFields} from './dirtyTracking';
+import {useRowEditState} from './editRowStore';
+
+/**
+ * Hook tracking which fields of an editing row differ from `row.original`
+ *
+ * Re-renders whenever a value is written through the kit's edit components.
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ * @returns The dirty map (changed column ids) and whether any field is dirty
+ *
+ * @example
+ * ```tsx
+ * const {dirtyFields, isDirty} = useRowDirtyState({table, row});
+ * ```
+ */
+export const useRowDirtyState = <TData extends MRT_RowData>(
+  {table, row}: { table: MRT_TableInstance<TData>; row: MRT_Row<TData> }
+) => {
+  useRowEditState(table, row.id); // subscribe to value writes
+  const dirtyFields = getDirtyFields(table, row);
+
+  return {
+    /** Changed column ids mapped to true */
+    dirtyFields,
+    /** Whether any field differs from row.original */
+    isDirty: Object.keys(dirtyFields).length > 0,
+  };
+};
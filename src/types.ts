@@ -0,0 +1,113 @@
+// src/types.ts
+/**
+ * @file types.ts
+ * @description Extends Material React Table's column definition, table options and localization
+ * with the settings read by MRT-UI-Kit components.
+ *
+ * The augmentation is applied as soon as anything is imported from the library,
+ * so the extra keys are type-checked in regular `MRT_ColumnDef` / `useMaterialReactTable` usage.
+ */
+import type {MRT_RowData} from 'material-react-table';
+import type {MRT_ColumnValidation} from './validation';
+import type {MRT_DateSerialization} from './dateSerialization';
+import type {MRT_OptionLookup} from './lookup';
+import type {MRT_FieldCondition} from './conditions';
+import type {MRT_ComputedColumn} from './computed';
+import type {MRT_ViewFormat, MRT_ViewFormatters} from './viewFormat';
+import type {MRT_BulkEditSaveProps} from './bulkEdit';
+import type {MRT_DeletingRowProps} from './deleteRows';
+import type {MRT_LatestRowProps} from './concurrency';
+import type {MRT_DraftOptions} from './drafts';
+
+declare module 'material-react-table' {
+  interface MRT_ColumnDef<TData extends MRT_RowData, TValue = unknown> {
+    /** Validation rules run by the MRT-UI-Kit edit components and MRT_SubmitDialogButton */
+    validation?: MRT_ColumnValidation<TData>;
+    /** How the kit's date editors store and read this column's values (overrides the table setting) */
+    dateSerialization?: MRT_DateSerialization;
+    /** Options of a key-valued column: the stored key is edited and shown as its option's label */
+    lookup?: MRT_OptionLookup;
+    /** Edit this column's text as Markdown in MRT_EditCellTextarea and render it in MRT_EditDialog's view mode */
+    markdown?: boolean;
+    /** Shows the field in MRT_EditDialog only while this returns true (hidden fields are not submitted) */
+    visibleWhen?: MRT_FieldCondition<TData>;
+    /** Lets the field be edited only while this returns true */
+    enabledWhen?: MRT_FieldCondition<TData>;
+    /** Derives the value from the other fields while editing; shown read-only in MRT_EditDialog */
+    computed?: MRT_ComputedColumn<TData>;
+    /** Section (accordion or tab) of MRT_EditDialog this field is placed in; defaults to its column group's header */
+    editSection?: string;
+    /** How MRT_EditDialog's view mode shows the value (inferred from the value by default) */
+    viewFormat?: MRT_ViewFormat<TData>;
+  }
+
+  interface MRT_TableOptions<TData extends MRT_RowData> {
+    /** How the kit's date editors store and read date values */
+    dateSerialization?: MRT_DateSerialization;
+    /** View formatters by format name, extending or replacing the kit's defaults */
+    viewFormatters?: MRT_ViewFormatters<TData>;
+    /** Saves a bulk edit started with `setBulkEditingRow`: the edited row ids and only the changed fields */
+    onBulkEditingRowSave?: (props: MRT_BulkEditSaveProps<TData>) => Promise<void> | void;
+    /** Deletes rows confirmed in MRT_DeleteRowButton (after its undo window, if any) */
+    onDeletingRow?: (props: MRT_DeletingRowProps<TData>) => Promise<void> | void;
+    /** Fetches the stored row before MRT_SubmitDialogButton saves an edit, to detect concurrent changes */
+    getLatestRow?: (props: MRT_LatestRowProps<TData>) => Promise<TData | null | undefined> | TData | null | undefined;
+    /** Field compared with `getLatestRow`'s result (default "version", or "updatedAt" when the row has no version) */
+    versionField?: string;
+    /** Autosaves drafts of the rows being created or edited, offered back when MRT_EditDialog reopens */
+    drafts?: boolean | MRT_DraftOptions;
+  }
+
+  interface MRT_Localization {
+    /** Title of the unsaved-changes confirmation (default "Discard changes?") */
+    discardChanges?: string;
+    /** Body of the unsaved-changes confirmation */
+    discardChangesMessage?: string;
+    /** Confirm button of the unsaved-changes confirmation (default "Discard") */
+    discard?: string;
+    /** Dismiss button of the unsaved-changes confirmation (default "Keep editing") */
+    keepEditing?: string;
+    /** Undo button label (default "Undo") */
+    undo?: string;
+    /** Redo button label (default "Redo") */
+    redo?: string;
+    /** Previous step button of MRT_EditDialog's create wizard (default "Back") */
+    back?: string;
+    /** Next step button of MRT_EditDialog's create wizard (default "Next") */
+    next?: string;
+    /** Previous record button of MRT_EditDialog (default "Previous record") */
+    previousRecord?: string;
+    /** Next record button of MRT_EditDialog (default "Next record") */
+    nextRecord?: string;
+    /** Marker of bulk edit fields whose rows hold different values (default "Mixed values") */
+    mixedValues?: string;
+    /** Delete button label (default "Delete") */
+    delete?: string;
+    /** Title of the delete confirmation (default "Delete this row?" / "Delete 3 rows?") */
+    confirmDelete?: string;
+    /** Message of the delete undo snackbar (default "Row deleted" / "3 rows deleted") */
+    rowsDeleted?: string;
+    /** Title of the save conflict dialog (default "This record was changed by someone else") */
+    conflictTitle?: string;
+    /** Body of the save conflict dialog */
+    conflictMessage?: string;
+    /** Column header of the values being saved in the save conflict dialog (default "Yours") */
+    yours?: string;
+    /** Column header of the latest stored values in the save conflict dialog (default "Theirs") */
+    theirs?: string;
+    /** Saves with every value being saved (default "Keep mine") */
+    keepMine?: string;
+    /** Drops the changes being saved (default "Keep theirs") */
+    keepTheirs?: string;
+    /** Saves with the value picked for each field (default "Save merged") */
+    saveMerged?: string;
+    /** Shown when `getLatestRow` fails and the edit is not saved */
+    conflictCheckFailed?: string;
+    /** Title of MRT_EditDialog's draft prompt (default "Restore draft?") */
+    restoreDraft?: string;
+    /** Body of MRT_EditDialog's draft prompt */
+    restoreDraftMessage?: string;
+    /** Restores the draft (default "Restore") */
+    restore?: string;
+  }
+}
@@ -3,12 +3,57 @@ import {isDayjs} from 'dayjs';
 import {
   MRT_TableInstance,
   MRT_Cell,
+  MRT_Column,
+  MRT_Row,
   MRT_RowData,
 } from 'material-react-table';
 import {parseFromValuesOrFunc} from "material-react-table/src/utils/utils";
 import {RTV} from "./components";
 import {DatePickerSlotProps} from "@mui/x-date-pickers/DatePicker";
 import {TextFieldProps} from "@mui/material";
+import {getEditRowStore} from "./state/editRowStore";
+import {cancelAsyncValidation, scheduleAsyncValidation, waitForAsyncValidation} from "./state/asyncValidation";
+import {createDateSerializer, type MRT_DateValueFormat} from "./dateSerialization";
+import {clearDraft} from "./state/draftAutosave";
+import {getDirtyFields} from "./state/dirtyTracking";
+import {setEditingRowValue} from "./state/editHistory";
+import {isFieldVisible} from "./state/fieldConditions";
+import {
+  hasValidationErrors,
+  runValidation,
+  type MRT_ValidationErrors,
+  type MRT_ValidationPending
+} from "./validation";
+
+/** Storage format of date values written by the date editors */
+export const DATE_VALUE_FORMAT = 'YYYY-MM-DD';
+
+/** Storage format of date-time values written by the date-time editors (local time, no offset) */
+export const DATE_TIME_VALUE_FORMAT = 'YYYY-MM-DDTHH:mm:ss';
+
+/** Storage format of time values written by the time editors */
+export const TIME_VALUE_FORMAT = 'HH:mm:ss';
+
+/**
+ * Resolves how Dayjs values of a column are stored and read back
+ *
+ * Precedence: explicit `format` > column `dateSerialization` > table `dateSerialization` > `defaultFormat`.
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param column - The column being edited
+ * @param options - An explicit format (e.g. an editor's `valueFormat` prop) and the editor's default format
+ * @returns The serializer/parser pair
+ */
+export const getDateSerializer = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  column: MRT_Column<TData>,
+  {format, defaultFormat = DATE_VALUE_FORMAT}: { format?: MRT_DateValueFormat; defaultFormat?: MRT_DateValueFormat } = {}
+) => createDateSerializer({
+  ...table.options.dateSerialization,
+  ...column.columnDef.dateSerialization,
+  ...(format ? {format, serialize: undefined, parse: undefined} : {}),
+}, defaultFormat);
 
 /**
  * Updates the editing row in a Material React Table with a new value
@@ -20,35 +65,166 @@ import {TextFieldProps} from "@mui/material";
  * @param table - The Material React Table instance
  * @param cell - The cell being edited
  * @param newValue - The new value to set (can be any type, including Dayjs objects)
+ * @param dateFormat - Format used to store Dayjs values when no `dateSerialization` is configured (default 'YYYY-MM-DD')
  */
 export const updateEditingRow = <TData extends MRT_RowData>(
   table: MRT_TableInstance<TData>,
   cell: MRT_Cell<TData>,
-  newValue: unknown
+  newValue: unknown,
+  dateFormat: string = DATE_VALUE_FORMAT
 ) => {
   const {editingRow, creatingRow} = table.getState();
   const {row} = cell;
 
-  //@ts-expect-error row._valuesCache is keyed by cell.column.id
-  row._valuesCache[cell.column.id] = isDayjs(newValue)
-    ? newValue.format('YYYY-MM-DD')
-    : newValue;
+  setEditingRowValue(table, row, cell.column.id, isDayjs(newValue)
+    ? getDateSerializer(table, cell.column, {defaultFormat: dateFormat}).serialize(newValue)
+    : newValue);
+
+  const error = validateEditingCell(table, cell);
 
   if (editingRow?.id) {
     table.setEditingRow(row);
-    if (table.options.editDisplayMode === 'cell') {
-      void table.options?.onEditingRowSave?.({
+    // Never auto-save an invalid cell
+    if (table.options.editDisplayMode === 'cell' && !error) {
+      const save = () => void table.options?.onEditingRowSave?.({
         table,
         row,
-        values: row._valuesCache,
+        values: getSubmitValues(table, row),
         exitEditingMode: () => table.setEditingCell(null),
       });
+      const store = getEditRowStore(table);
+      if (!Object.values(store.getRow(row.id).pending).some(Boolean)) save();
+      else void waitForAsyncValidation(table, row.id).then(() => {
+        if (!hasValidationErrors(store.getRow(row.id).errors)) save();
+      });
     }
   } else if (creatingRow?.id) {
     table.setCreatingRow(row);
   }
 };
 
+/**
+ * Runs a column's synchronous rules and, once they pass, its async validator
+ * @private
+ */
+const validateColumn = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>,
+  column: MRT_Column<TData>,
+  values: Record<string, unknown>,
+  immediate = false
+): { error?: string; pending: boolean } => {
+  const {validation} = column.columnDef;
+  const value = values[column.id];
+  const error = runValidation(validation, {value, values, column, row, table});
+
+  if (!validation?.validateAsync) return {error, pending: false};
+  if (error) {
+    cancelAsyncValidation(table, row.id, column.id);
+    return {error, pending: false};
+  }
+
+  const entry = scheduleAsyncValidation({table, row, column, value, values, immediate});
+  return {error: entry.error, pending: !entry.settled};
+};
+
+/**
+ * Validates a single editing cell and stores the result for the row
+ *
+ * Columns that declare this column in their `validation.deps` are re-validated as well,
+ * as long as they have been validated before (so untouched fields don't light up early).
+ * A column's `validateAsync` is scheduled (debounced) once its synchronous rules pass.
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param cell - The cell being edited
+ * @param value - The candidate value (defaults to the value in row._valuesCache)
+ * @returns The synchronous error message for the cell, or undefined if valid (so far)
+ */
+export const validateEditingCell = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  cell: MRT_Cell<TData>,
+  value: unknown = cell.row._valuesCache[cell.column.id]
+) => {
+  const {column, row} = cell;
+  const values: Record<string, unknown> = {...row._valuesCache, [column.id]: value};
+  const store = getEditRowStore(table);
+  const {errors, pending} = store.getRow(row.id);
+
+  const dependents = table
+  .getAllLeafColumns()
+  .filter((col) => col.id in errors && col.columnDef.validation?.deps?.includes(column.id));
+
+  const columns = column.columnDef.validation ? [column, ...dependents] : dependents;
+  if (!columns.length) return undefined;
+
+  const nextErrors: MRT_ValidationErrors = {...errors};
+  const nextPending: MRT_ValidationPending = {...pending};
+  columns.forEach((col) => {
+    const result = validateColumn(table, row, col, values);
+    nextErrors[col.id] = result.error;
+    nextPending[col.id] = result.pending;
+  });
+
+  store.setRow(row.id, (prev) => ({...prev, errors: nextErrors, pending: nextPending}));
+  return nextErrors[column.id];
+};
+
+/**
+ * Validates every column of an editing row (or only the given columns) and stores the result
+ *
+ * Async validators start immediately; await `waitForAsyncValidation` for their results.
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being edited or created
+ * @param columnIds - Only validate these columns, keeping the other columns' errors (e.g. one wizard step)
+ * @returns The validation errors known so far, keyed by column id
+ */
+export const validateEditingRow = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>,
+  columnIds?: string[]
+): MRT_ValidationErrors => {
+  const values: Record<string, unknown> = {...row._valuesCache};
+  const errors: MRT_ValidationErrors = {};
+  const pending: MRT_ValidationPending = {};
+  // A bulk edit only applies (and so only checks) the fields the user changed
+  const changed = getEditRowStore(table).getRow(row.id).bulk && getDirtyFields(table, row);
+
+  table
+  .getAllLeafColumns()
+  .filter((column) => !columnIds || columnIds.includes(column.id))
+  .filter((column) => !changed || changed[column.id])
+  // Hidden fields are not submitted, so they don't block saving either
+  .filter((column) => column.columnDef.validation && isFieldVisible(table, row, column))
+  .forEach((column) => {
+    const result = validateColumn(table, row, column, values, true);
+    errors[column.id] = result.error;
+    pending[column.id] = result.pending;
+  });
+
+  getEditRowStore(table).setRow(row.id, (prev) => columnIds
+    ? {...prev, errors: {...prev.errors, ...errors}, pending: {...prev.pending, ...pending}}
+    : {...prev, errors, pending});
+  return errors;
+};
+
+/**
+ * Clears the kit's editing state (validation errors, pending async checks) for a row
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param rowId - The id of the row that stopped being edited
+ */
+export const clearEditingRowState = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  rowId: string
+) => {
+  cancelAsyncValidation(table, rowId);
+  getEditRowStore(table).clearRow(rowId);
+};
+
 /**
  * Parameters for the getDateJsTextFieldProps function
  *
@@ -57,7 +233,7 @@ export const updateEditingRow = <TData extends MRT_RowData>(
 interface GetDateJsMRT_TextFieldProps<T extends MRT_RowData> {
   cell: MRT_Cell<T>;
   table: MRT_TableInstance<T>;
-  textFieldProps?: DatePickerSlotProps['textField']
+  textFieldProps?: DatePickerSlotProps['textField'] | TextFieldProps
 }
 
 /**
@@ -154,4 +330,106 @@ export const getTextFieldProps = <T extends MRT_RowData>(
  */
 export const setViewingRow = <TData extends MRT_RowData>(
   {table, row}: Pick<RTV<TData>, 'row' | 'table'>
-) => table.setEditingRow({...row, id: 'mrt-row-view'});
\ No newline at end of file
+) => table.setEditingRow({...row, id: 'mrt-row-view'});
+
+/**
+ * Gets the MRT_EditDialog section of a field: the column's `editSection`, or else the header of its column group
+ *
+ * @template TData - The data type for the table row
+ * @param column - The column
+ * @returns The section name, or undefined for ungrouped fields
+ */
+export const getEditSection = <TData extends MRT_RowData>(column: MRT_Column<TData>): string | undefined =>
+  column.columnDef.editSection ?? (column.parent as MRT_Column<TData> | undefined)?.columnDef.header;
+
+/**
+ * Gets the values to save for a row: row._valuesCache without the fields hidden by `visibleWhen`
+ * and without `computed` columns (unless they set `includeInSave`)
+ *
+ * @template TData - The data type for the table row
+ * @param table - The Material React Table instance
+ * @param row - The row being saved
+ * @returns The values to hand to onCreatingRowSave / onEditingRowSave
+ */
+export const getSubmitValues = <TData extends MRT_RowData>(
+  table: MRT_TableInstance<TData>,
+  row: MRT_Row<TData>
+): Record<string, unknown> => {
+  const hidden = new Set(
+    table
+    .getAllLeafColumns()
+    .filter((column) =>
+      !isFieldVisible(table, row, column)
+      || (column.columnDef.computed && !column.columnDef.computed.includeInSave)
+    )
+    .map((column) => column.id)
+  );
+  if (!hidden.size) return row._valuesCache;
+  return Object.fromEntries(Object.entries(row._valuesCache).filter(([columnId]) => !hidden.has(columnId)));
+};
+
+/**
+ * Cancels creating/editing a row, without asking
+ *
+ * Calls onCreatingRowCancel / onEditingRowCancel, exits the mode, resets the row's edit state and deletes its draft.
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ */
+export const cancelEditingRow = <TData extends MRT_RowData>(
+  {table, row}: Pick<RTV<TData>, 'row' | 'table'>
+) => {
+  const {creatingRow, editingRow} = table.getState();
+  if (creatingRow?.id === row.id) {
+    table.options.onCreatingRowCancel?.({row, table});
+    table.setCreatingRow(null);
+  } else if (editingRow?.id === row.id) {
+    table.options.onEditingRowCancel?.({row, table});
+    table.setEditingRow(null);
+  }
+  row._valuesCache = {} as Record<string, unknown>; //reset values cache
+  clearEditingRowState(table, row.id); //reset validation state
+  clearDraft(table, row.id); //the changes were given up on purpose
+};
+
+/**
+ * Cancels creating/editing a row, asking "Discard changes?" first if the row is dirty
+ *
+ * The confirmation is rendered by MRT_DiscardChangesDialog, which MRT_EditDialog mounts;
+ * layouts without MRT_EditDialog render it themselves.
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ */
+export const requestCancelEditingRow = <TData extends MRT_RowData>(
+  {table, row}: Pick<RTV<TData>, 'row' | 'table'>
+) => {
+  const isDirty = Object.keys(getDirtyFields(table, row)).length > 0;
+  if (isDirty) {
+    getEditRowStore(table).setRow(row.id, (prev) => ({...prev, confirmingDiscard: true}));
+  } else cancelEditingRow({table, row});
+};
+
+/**
+ * Dialog props that route backdrop clicks and Escape on MRT's edit/create dialog
+ * through the unsaved-changes confirmation
+ *
+ * @example
+ * ```tsx
+ * const table = useMaterialReactTable({
+ *   muiEditRowDialogProps: getEditRowDialogProps,
+ *   muiCreateRowModalProps: getEditRowDialogProps,
+ *   renderEditRowDialogContent: ({table, row, internalEditComponents}) =>
+ *     (<MRT_EditDialog table={table} row={row} components={internalEditComponents}/>),
+ * });
+ * ```
+ *
+ * @template TData - The data type for the table row
+ * @param options - Object containing table and row
+ * @returns Dialog props with a guarded onClose
+ */
+export const getEditRowDialogProps = <TData extends MRT_RowData>(
+  {table, row}: Pick<RTV<TData>, 'row' | 'table'>
+) => ({
+  onClose: () => requestCancelEditingRow({table, row}),
+});
@@ -0,0 +1,58 @@
+import {describe, expect, it} from 'vitest';
+import {runValidation, type MRT_ColumnValidation, type MRT_ValidatorContext} from './validation';
+
+type Person = { name: string };
+
+/**
+ * Runs the rules against a value; the validator context is only read by custom validators
+ */
+const check = (validation: MRT_ColumnValidation<Person>, value: unknown) =>
+  runValidation(validation, {value, values: {name: value}} as MRT_ValidatorContext<Person>);
+
+describe('runValidation', () => {
+  it('flags empty values when required', () => {
+    expect(check({required: true}, '  ')).toBe('Required');
+    expect(check({required: 'Name is required'}, [])).toBe('Name is required');
+    expect(check({required: true}, 'Ada')).toBeUndefined();
+  });
+
+  it('skips the other rules for empty values', () => {
+    expect(check({min: 3, pattern: /^\d+$/}, '')).toBeUndefined();
+  });
+
+  it('compares numbers and numeric strings by value with min and max', () => {
+    expect(check({min: 18}, 17)).toBe('Must be at least 18');
+    expect(check({min: 18}, ' 18 ')).toBeUndefined();
+    expect(check({max: {value: 99, message: 'Too old'}}, '100')).toBe('Too old');
+  });
+
+  it('compares text and lists by length with min and max', () => {
+    expect(check({min: 3}, 'Al')).toBe('Must be at least 3 characters');
+    expect(check({max: 1}, ['a', 'b'])).toBe('Must be at most 1 items');
+  });
+
+  it('matches a global pattern from the start on every run', () => {
+    const validation = {pattern: {value: /^[a-z]+$/g, message: 'Lowercase only'}};
+
+    expect(check(validation, 'ada')).toBeUndefined();
+    expect(check(validation, 'ada')).toBeUndefined();
+    expect(check(validation, 'Ada')).toBe('Lowercase only');
+  });
+
+  it('counts characters or words for maxLength', () => {
+    expect(check({maxLength: 3}, 'Adam')).toBe('Must be at most 3 characters');
+    expect(check({maxLength: {max: 2, unit: 'words'}}, 'Ada  Lovelace ')).toBeUndefined();
+    expect(check({maxLength: {max: 2, unit: 'words', message: 'Two words'}}, 'Ada King Lovelace')).toBe('Two words');
+  });
+
+  it('runs custom validators after the built-in rules', () => {
+    const validation: MRT_ColumnValidation<Person> = {
+      min: 2,
+      validate: [() => false, ({value}) => value === 'Bob' && 'Not Bob'],
+    };
+
+    expect(check(validation, 'B')).toBe('Must be at least 2 characters');
+    expect(check(validation, 'Bob')).toBe('Not Bob');
+    expect(check(validation, 'Ada')).toBeUndefined();
+  });
+});
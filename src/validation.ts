@@ -0,0 +1,237 @@
+// src/validation.ts
+import type {
+  MRT_Column,
+  MRT_Row,
+  MRT_RowData,
+  MRT_TableInstance,
+} from 'material-react-table';
+
+/**
+ * Context handed to every validator
+ *
+ * @template TData - The data type for the table row
+ */
+export interface MRT_ValidatorContext<TData extends MRT_RowData> {
+  /** The candidate value for the column being validated */
+  value: unknown;
+  /** All current row values (row._valuesCache with the candidate value applied) */
+  values: Record<string, unknown>;
+  /** The column being validated */
+  column: MRT_Column<TData>;
+  /** The row being edited */
+  row: MRT_Row<TData>;
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+}
+
+/**
+ * A custom validator.
+ * Returns an error message when invalid, or a falsy value when valid.
+ *
+ * @template TData - The data type for the table row
+ */
+export type MRT_Validator<TData extends MRT_RowData> =
+  (context: MRT_ValidatorContext<TData>) => string | null | undefined | false;
+
+/**
+ * An asynchronous validator, for checks that need a round trip (e.g. "is this username taken").
+ * The `signal` is aborted when a newer value supersedes this check.
+ *
+ * @template TData - The data type for the table row
+ */
+export type MRT_AsyncValidator<TData extends MRT_RowData> =
+  (context: MRT_ValidatorContext<TData> & { signal: AbortSignal }) => Promise<string | null | undefined | false>;
+
+/**
+ * A rule value with an optional custom error message
+ */
+export type MRT_ValidationRule<T> = T | { value: T; message?: string };
+
+/**
+ * A length limit for text values, counted in characters or words
+ */
+export interface MRT_LengthLimit {
+  /** Maximum number of characters (or words) */
+  max: number;
+  /** What is counted. Defaults to 'characters'. */
+  unit?: 'characters' | 'words';
+  /** Share of `max` from which the counter shows a warning. Defaults to 0.9. */
+  warnAt?: number;
+  /** Stop input past the limit instead of only flagging it. Defaults to false. */
+  blockInput?: boolean;
+  /** Custom error message when the limit is exceeded */
+  message?: string;
+}
+
+/**
+ * Declarative validation rules for a column.
+ * Declared on the column definition as `validation`.
+ *
+ * @template TData - The data type for the table row
+ *
+ * @example
+ * ```tsx
+ * {
+ *   accessorKey: 'confirmEmail',
+ *   header: 'Confirm Email',
+ *   validation: {
+ *     required: 'Please confirm the email',
+ *     pattern: { value: /^\S+@\S+$/, message: 'Invalid email' },
+ *     deps: ['email'],
+ *     validate: ({ value, values }) => value !== values.email && 'Emails must match',
+ *   },
+ * }
+ * ```
+ */
+export interface MRT_ColumnValidation<TData extends MRT_RowData> {
+  /** Value may not be empty (null, undefined, blank string or empty array) */
+  required?: boolean | string;
+  /** Minimum number (numeric strings included), or minimum length for other strings and arrays */
+  min?: MRT_ValidationRule<number>;
+  /** Maximum number (numeric strings included), or maximum length for other strings and arrays */
+  max?: MRT_ValidationRule<number>;
+  /** Pattern string values must match (a global or sticky pattern is matched from the start every time) */
+  pattern?: MRT_ValidationRule<RegExp>;
+  /** Length limit of text values (a number means characters), shown as a live counter by the text editors */
+  maxLength?: number | MRT_LengthLimit;
+  /** Custom validator(s), run in order after the built-in rules */
+  validate?: MRT_Validator<TData> | MRT_Validator<TData>[];
+  /** Column ids whose changes re-validate this column (cross-field rules) */
+  deps?: string[];
+  /** Asynchronous validator, only run once all synchronous rules pass */
+  validateAsync?: MRT_AsyncValidator<TData>;
+  /** Debounce delay in ms before validateAsync runs (default 300) */
+  asyncDebounceMs?: number;
+}
+
+/**
+ * Map of column id to error message for a row
+ */
+export type MRT_ValidationErrors = Record<string, string | undefined>;
+
+/**
+ * Map of column id to whether an async validation is still running
+ */
+export type MRT_ValidationPending = Record<string, boolean>;
+
+/**
+ * Splits a rule into its value and optional message
+ * @private
+ */
+const getRule = <T>(rule: MRT_ValidationRule<T>): { value: T; message?: string } =>
+  typeof rule === 'object' && rule !== null && 'value' in rule && !(rule instanceof RegExp)
+    ? rule
+    : {value: rule as T};
+
+/**
+ * Reads a number typed as text (e.g. by MRT_EditCellTextField), so numeric rules compare it as a number
+ * @private
+ */
+const toNumeric = (value: string) => {
+  const number = Number(value.trim());
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Checks if a value should be treated as empty by the `required` rule
+ */
+export const isEmptyValue = (value: unknown) =>
+  value === null
+  || value === undefined
+  || (typeof value === 'string' && value.trim() === '')
+  || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Normalizes a `maxLength` setting
+ *
+ * @param maxLength - A character count or a length limit
+ * @returns The length limit, or undefined when there is none
+ */
+export const getLengthLimit = (maxLength: number | MRT_LengthLimit | undefined): MRT_LengthLimit | undefined =>
+  typeof maxLength === 'number' ? {max: maxLength} : maxLength;
+
+/**
+ * Counts the characters or words of a text
+ *
+ * @param text - The text
+ * @param unit - What to count (default 'characters')
+ * @returns The length
+ */
+export const countLength = (text: string, unit: MRT_LengthLimit['unit'] = 'characters') => {
+  if (unit === 'characters') return text.length;
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+};
+
+/**
+ * Cuts a text down to a length limit (keeping whitespace typed after the last allowed word)
+ *
+ * @param text - The text
+ * @param limit - The length limit
+ * @returns The text, cut to at most `limit.max` characters or words
+ */
+export const truncateToLimit = (text: string, {max, unit = 'characters'}: MRT_LengthLimit) => {
+  if (countLength(text, unit) <= max) return text;
+  if (unit === 'characters') return text.slice(0, max);
+  if (max <= 0) return '';
+  return new RegExp(`^\\s*(?:\\S+\\s+){${max - 1}}\\S+\\s*`).exec(text)?.[0] ?? text;
+};
+
+/**
+ * Runs a column's declared validation rules against a value
+ *
+ * Empty values only fail the `required` rule; the remaining rules are skipped for them.
+ *
+ * @template TData - The data type for the table row
+ * @param validation - The column validation rules
+ * @param context - The validator context
+ * @returns The first error message, or undefined if valid
+ */
+export const runValidation = <TData extends MRT_RowData>(
+  validation: MRT_ColumnValidation<TData> | undefined,
+  context: MRT_ValidatorContext<TData>
+): string | undefined => {
+  if (!validation) return undefined;
+  const {value} = context;
+  const {required, min, max, pattern, maxLength, validate} = validation;
+
+  if (isEmptyValue(value)) {
+    if (required) return typeof required === 'string' ? required : 'Required';
+  } else {
+    const numeric = typeof value === 'number' ? value : typeof value === 'string' ? toNumeric(value) : undefined;
+    const size = numeric
+      ?? (typeof value === 'string' || Array.isArray(value) ? value.length : undefined);
+    const unit = numeric !== undefined ? '' : typeof value === 'string' ? ' characters' : Array.isArray(value) ? ' items' : '';
+
+    if (min !== undefined && size !== undefined) {
+      const rule = getRule(min);
+      if (size < rule.value) return rule.message ?? `Must be at least ${rule.value}${unit}`;
+    }
+    if (max !== undefined && size !== undefined) {
+      const rule = getRule(max);
+      if (size > rule.value) return rule.message ?? `Must be at most ${rule.value}${unit}`;
+    }
+    if (pattern !== undefined && typeof value === 'string') {
+      const rule = getRule(pattern);
+      rule.value.lastIndex = 0; // test() resumes from lastIndex on global and sticky patterns
+      if (!rule.value.test(value)) return rule.message ?? 'Invalid format';
+    }
+    const limit = getLengthLimit(maxLength);
+    if (limit && typeof value === 'string' && countLength(value, limit.unit) > limit.max) {
+      return limit.message ?? `Must be at most ${limit.max} ${limit.unit ?? 'characters'}`;
+    }
+  }
+
+  const validators = Array.isArray(validate) ? validate : validate ? [validate] : [];
+  for (const validator of validators) {
+    const error = validator(context);
+    if (error) return error;
+  }
+  return undefined;
+};
+
+/**
+ * Checks if any column in an error map has an error
+ */
+export const hasValidationErrors = (errors: MRT_ValidationErrors) =>
+  Object.values(errors).some(Boolean);
@@ -0,0 +1,120 @@
+// src/viewFormat.ts
+import type {ReactNode} from 'react';
+import {isDayjs} from 'dayjs';
+import type {MRT_Cell, MRT_Column, MRT_Row, MRT_RowData, MRT_TableInstance} from 'material-react-table';
+
+/**
+ * Built-in view formats of MRT_EditDialog's view mode. Any other name refers to a formatter
+ * registered in the table's `viewFormatters`.
+ */
+export type MRT_ViewFormatType =
+  | 'text'
+  | 'number'
+  | 'currency'
+  | 'percent'
+  | 'date'
+  | 'dateTime'
+  | 'time'
+  | 'boolean'
+  | 'chips'
+  | 'email'
+  | 'url'
+  | 'json'
+  | (string & {});
+
+/**
+ * Options of a view format
+ */
+export interface MRT_ViewFormatOptions {
+  /** The format. Inferred from the value when omitted. */
+  type?: MRT_ViewFormatType;
+  /** BCP 47 locale for numbers and dates. Defaults to the table localization's language. */
+  locale?: string;
+  /** ISO 4217 currency code of the currency format. Defaults to 'USD'. */
+  currency?: string;
+  /** Extra Intl.NumberFormat options for the number, currency and percent formats */
+  numberFormat?: Intl.NumberFormatOptions;
+  /** Dayjs display format of the date formats. Defaults to the locale's medium date (and short time). */
+  dateFormat?: string;
+}
+
+/**
+ * Context handed to a view formatter
+ *
+ * @template TData - The data type for the table row
+ */
+export interface MRT_ViewFormatContext<TData extends MRT_RowData> {
+  /** The stored value (never null, undefined or an empty string; those show a placeholder) */
+  value: unknown;
+  /** The resolved format options of the column */
+  options: MRT_ViewFormatOptions;
+  /** The cell being shown */
+  cell: MRT_Cell<TData>;
+  /** The cell's column */
+  column: MRT_Column<TData>;
+  /** The row being viewed */
+  row: MRT_Row<TData>;
+  /** The table instance */
+  table: MRT_TableInstance<TData>;
+}
+
+/**
+ * Renders a value in MRT_EditDialog's view mode
+ *
+ * @template TData - The data type for the table row
+ */
+export type MRT_ViewFormatter<TData extends MRT_RowData> = (context: MRT_ViewFormatContext<TData>) => ReactNode;
+
+/**
+ * How a column's value is shown in MRT_EditDialog's view mode.
+ * Declared on the column definition as `viewFormat`: a format name, format options or a formatter.
+ *
+ * @template TData - The data type for the table row
+ *
+ * @example
+ * ```tsx
+ * {accessorKey: 'price', header: 'Price', viewFormat: {type: 'currency', currency: 'EUR'}},
+ * {accessorKey: 'tags', header: 'Tags', viewFormat: 'chips'},
+ * {accessorKey: 'rating', header: 'Rating', viewFormat: ({value}) => '★'.repeat(Number(value))},
+ * ```
+ */
+export type MRT_ViewFormat<TData extends MRT_RowData> =
+  | MRT_ViewFormatType
+  | MRT_ViewFormatOptions
+  | MRT_ViewFormatter<TData>;
+
+/**
+ * Formatters by format name, declared on the table options as `viewFormatters`.
+ * They extend or replace the built-in formatters.
+ *
+ * @template TData - The data type for the table row
+ */
+export type MRT_ViewFormatters<TData extends MRT_RowData> = Partial<Record<MRT_ViewFormatType, MRT_ViewFormatter<TData>>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2})?$/;
+
+/**
+ * Picks the view format of a value that has no declared format
+ *
+ * @param value - The stored value
+ * @returns The format name
+ */
+export const inferViewFormatType = (value: unknown): MRT_ViewFormatType => {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number' || typeof value === 'bigint') return 'number';
+  if (Array.isArray(value)) return 'chips';
+  if (value instanceof Date || isDayjs(value)) return 'dateTime';
+  if (typeof value === 'string') {
+    if (DATE_PATTERN.test(value)) return 'date';
+    if (DATE_TIME_PATTERN.test(value)) return 'dateTime';
+    if (TIME_PATTERN.test(value)) return 'time';
+    if (EMAIL_PATTERN.test(value)) return 'email';
+    if (URL_PATTERN.test(value)) return 'url';
+    return 'text';
+  }
+  return typeof value === 'object' ? 'json' : 'text';
+};